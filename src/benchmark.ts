@@ -0,0 +1,63 @@
+/**
+ * Measures how long big boards take to generate and to open, and how much memory they take once opened.
+ * The bombs are placed on the first click, so it's timed together with the opening of the area around it.
+ * Run it with `npm run benchmark`. Node has to be started with `--expose-gc`,
+ * so the memory is measured after a garbage collection.
+ */
+import { MinesweeperBoard } from "./core/minesweeper-board";
+
+const SIZES = [100, 500, 1000];
+
+/**
+ * Bombs per tile, close to the density of the expert board.
+ */
+const BOMB_DENSITY = 0.15;
+
+function collectGarbage() {
+    if (global.gc === undefined) {
+        throw new Error("Start node with --expose-gc to measure the memory.");
+    }
+
+    // A single collection doesn't always free everything, the numbers are steadier with two.
+    global.gc();
+    global.gc();
+}
+
+function formatMB(bytes: number): string {
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+}
+
+function benchmark(size: number): string {
+    collectGarbage();
+
+    const heapBefore = process.memoryUsage().heapUsed + process.memoryUsage().arrayBuffers;
+
+    const generateStart = performance.now();
+
+    const board = MinesweeperBoard.generate(size, size, Math.round(size * size * BOMB_DENSITY), { firstClickPolicy: "opening", seed: "benchmark" });
+
+    const openStart = performance.now();
+
+    board.clickTile({ x: Math.floor(size / 2), y: Math.floor(size / 2) });
+
+    const openEnd = performance.now();
+
+    collectGarbage();
+
+    const heapAfter = process.memoryUsage().heapUsed + process.memoryUsage().arrayBuffers;
+
+    // The board is used after the measurement, so it's not collected before.
+    return [
+        `${size}×${size} (${board.boardState})`,
+        `generate ${(openStart - generateStart).toFixed(0)} ms`,
+        `first click and bombs ${(openEnd - openStart).toFixed(0)} ms`,
+        `memory ${formatMB(heapAfter - heapBefore)}`,
+    ].join(", ");
+}
+
+// Warms up the JIT and loads the modules, so the first size isn't slower than it should be.
+benchmark(SIZES[0]);
+
+for (const size of SIZES) {
+    console.log(benchmark(size));
+}
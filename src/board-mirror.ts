@@ -0,0 +1,318 @@
+import { BoardState, MinesweeperBoard, TileData, TileState } from "./core/minesweeper-board";
+import { Point } from "./lib/grid";
+import { Signal } from "./lib/signal";
+
+/**
+ * Describes a tile for a screen reader. Closed tiles don't reveal what's under them.
+ */
+function describeTile(tileData: TileData, tileState: TileState): string {
+    if (!tileState.isOpen) {
+        switch (tileState.state) {
+            case "default":
+                return "closed";
+            case "flag":
+                return "flagged";
+            case "question":
+                return "question mark";
+        }
+    }
+
+    if (tileData.type === "bomb") {
+        return tileState.wasClicked ? "exploded mine" : "mine";
+    }
+
+    // An open tile with a flag is a flag that was placed on a tile without a mine.
+    if (tileState.state === "flag") return "wrong flag";
+
+    return tileData.bombNeighbors === 0 ? "empty" : `${tileData.bombNeighbors}`;
+}
+
+/**
+ * Largest number of rows and columns of cells in the DOM. Bigger boards only have the cells around the focused one.
+ */
+const MAX_WINDOW_SIZE_CELLS = 32;
+
+function pluralize(count: number, noun: string): string {
+    return `${count} ${noun}${count === 1 ? "" : "s"}`;
+}
+
+/**
+ * Creates an element that is read by screen readers but not shown.
+ */
+function createHiddenElement(parent: HTMLElement, role: string): HTMLDivElement {
+    const element = document.createElement("div");
+    element.className = "visually-hidden";
+    element.setAttribute("role", role);
+    parent.appendChild(element);
+    return element;
+}
+
+/**
+ * A DOM copy of the board for assistive technology, because the canvas is invisible to it.
+ * It's an ARIA grid with a cell for every tile, kept in sync with the board through its signals,
+ * and live regions that announce the result, the mines left and the time.
+ *
+ * The grid has a single tab stop. Focusing a cell moves the keyboard cursor to it,
+ * and the keys of the keyboard play operate it.
+ *
+ * Only a window of {@link MAX_WINDOW_SIZE_CELLS} by {@link MAX_WINDOW_SIZE_CELLS} cells is in the DOM.
+ * It moves with the focus, and the row and column indexes tell their real position to screen readers.
+ */
+export class BoardMirror {
+
+    private readonly root: HTMLDivElement;
+
+    private readonly grid: HTMLDivElement;
+
+    private readonly resultRegion: HTMLDivElement;
+
+    private readonly minesLeftRegion: HTMLDivElement;
+
+    private readonly timerRegion: HTMLDivElement;
+
+    private board: MinesweeperBoard | null = null;
+
+    /**
+     * Cells of the window by row, then by column.
+     */
+    private cells: HTMLDivElement[][] = [];
+
+    /**
+     * Point of the first cell of the window.
+     */
+    private windowOrigin: Point = { x: 0, y: 0 };
+
+    private focusablePoint: Point = { x: 0, y: 0 };
+
+    private seconds: number = 0;
+
+    /**
+     * This signal is emitted with the point of a cell when it gets the focus.
+     */
+    readonly cellFocusedSignal: Signal<Point> = new Signal();
+
+    /**
+     * This signal is emitted with the point of a cell when it's clicked, for example by a screen reader.
+     */
+    readonly cellClickedSignal: Signal<Point> = new Signal();
+
+    private getCell(point: Point): HTMLDivElement | undefined {
+        return this.cells[point.y - this.windowOrigin.y]?.[point.x - this.windowOrigin.x];
+    }
+
+    private getCellPoint(element: EventTarget | null): Point | null {
+        if (!(element instanceof HTMLElement)) return null;
+
+        const cell = element.closest<HTMLElement>("[role=gridcell]");
+
+        if (cell === null) return null;
+
+        return {
+            x: Number(cell.dataset.x),
+            y: Number(cell.dataset.y),
+        };
+    }
+
+    private updateCell(point: Point) {
+        const cell = this.getCell(point);
+
+        if (cell === undefined || this.board === null) return;
+
+        cell.textContent = describeTile(this.board.getTileData(point), this.board.getTileState(point));
+    }
+
+    private updateMinesLeft() {
+        if (this.board === null) return;
+
+        this.minesLeftRegion.textContent = `${pluralize(this.board.bombCount - this.board.flagCount, "mine")} left`;
+    }
+
+    private updateDisabled(state: BoardState) {
+        this.grid.setAttribute("aria-disabled", `${state === "won" || state === "lost"}`);
+    }
+
+    private onBoardStateChanged(state: BoardState) {
+        this.updateDisabled(state);
+
+        if (state !== "won" && state !== "lost") {
+            this.resultRegion.textContent = "";
+            return;
+        }
+
+        const board = this.board;
+
+        // The timer isn't announced, so the result tells the final time. It's announced once the time is set:
+        // a replay that seeks sets the time after it applies the action that ends the game.
+        queueMicrotask(() => {
+            if (this.board !== board || board?.boardState !== state) return;
+
+            this.resultRegion.textContent = state === "won"
+                ? `You won in ${pluralize(this.seconds, "second")}.`
+                : `Game over. You opened a mine after ${pluralize(this.seconds, "second")}.`;
+        });
+    }
+
+    /**
+     * Moves the tab stop of the grid to a cell.
+     */
+    private setFocusablePoint(point: Point) {
+        this.getCell(this.focusablePoint)?.setAttribute("tabindex", "-1");
+
+        this.focusablePoint = point;
+
+        this.getCell(point)?.setAttribute("tabindex", "0");
+    }
+
+    /**
+     * Seconds shown by the timer. They are also used to announce the result.
+     */
+    public set timeSeconds(seconds: number) {
+        this.seconds = seconds;
+        this.timerRegion.textContent = pluralize(seconds, "second");
+    }
+
+    /**
+     * Focuses the cell of the keyboard cursor, but only if the focus is already in the grid,
+     * so moving the cursor doesn't take the focus from the rest of the page.
+     */
+    public focusCell(point: Point) {
+        if (this.board === null || !this.board.isPointInBounds(point)) return;
+
+        const hasFocus = this.grid.contains(document.activeElement);
+
+        // Replacing the cells drops the focus, so it's checked first.
+        if (this.getCell(point) === undefined) {
+            this.renderWindow(this.board, point);
+        }
+
+        this.setFocusablePoint(point);
+
+        if (hasFocus) {
+            this.getCell(point)?.focus();
+        }
+    }
+
+    /**
+     * Replaces the cells with a window of the board around a point.
+     */
+    private renderWindow(board: MinesweeperBoard, center: Point) {
+        const width = Math.min(board.width, MAX_WINDOW_SIZE_CELLS);
+        const height = Math.min(board.height, MAX_WINDOW_SIZE_CELLS);
+
+        this.windowOrigin = {
+            x: Math.max(0, Math.min(board.width - width, center.x - Math.floor(width / 2))),
+            y: Math.max(0, Math.min(board.height - height, center.y - Math.floor(height / 2))),
+        };
+
+        this.grid.replaceChildren();
+
+        this.cells = [];
+
+        for (let y = this.windowOrigin.y; y < this.windowOrigin.y + height; y++) {
+            const row = document.createElement("div");
+            row.setAttribute("role", "row");
+            row.setAttribute("aria-rowindex", `${y + 1}`);
+
+            const rowCells: HTMLDivElement[] = [];
+
+            for (let x = this.windowOrigin.x; x < this.windowOrigin.x + width; x++) {
+                const cell = document.createElement("div");
+                cell.setAttribute("role", "gridcell");
+                cell.setAttribute("aria-colindex", `${x + 1}`);
+                cell.setAttribute("tabindex", "-1");
+                cell.dataset.x = `${x}`;
+                cell.dataset.y = `${y}`;
+
+                row.appendChild(cell);
+                rowCells.push(cell);
+
+                this.updateCell({ x, y });
+            }
+
+            this.grid.appendChild(row);
+            this.cells.push(rowCells);
+        }
+
+        // Keeps a single tab stop when the focusable cell is out of the window.
+        this.setFocusablePoint(this.getCell(this.focusablePoint) === undefined ? center : this.focusablePoint);
+    }
+
+    /**
+     * Mirrors a board, replacing the previous one.
+     * The signals of the previous board are expected to be cleared by its owner.
+     * @param board - The board to mirror.
+     * @param isInteractive - Whether the cells can be clicked. Replays can only be read.
+     */
+    public attach(board: MinesweeperBoard, isInteractive: boolean) {
+        this.board = board;
+
+        // Replacing the cells drops the focus, it's given back to the same cell of the new board.
+        const hadFocus = this.grid.contains(document.activeElement);
+
+        this.grid.setAttribute("aria-rowcount", `${board.height}`);
+        this.grid.setAttribute("aria-colcount", `${board.width}`);
+        this.grid.setAttribute("aria-readonly", `${!isInteractive}`);
+
+        const isFocusablePointInBounds = board.isPointInBounds(this.focusablePoint);
+
+        this.focusablePoint = isFocusablePointInBounds ? this.focusablePoint : { x: 0, y: 0 };
+
+        this.renderWindow(board, this.focusablePoint);
+
+        if (hadFocus) {
+            this.getCell(this.focusablePoint)?.focus();
+        }
+
+        board.tilesChangedSignal.connect((points) => points.forEach(point => this.updateCell(point)));
+        board.boardStateChangedSignal.connect((state) => this.onBoardStateChanged(state));
+        board.flagCountChangedSignal.connect(() => this.updateMinesLeft());
+
+        this.grid.onclick = isInteractive ? (event) => {
+            const point = this.getCellPoint(event.target);
+            if (point !== null) this.cellClickedSignal.emit(point);
+        } : null;
+
+        // The result is only announced when it happens, not when a finished board is shown.
+        this.resultRegion.textContent = "";
+        this.updateDisabled(board.boardState);
+
+        this.updateMinesLeft();
+    }
+
+    public destroy() {
+        this.cellFocusedSignal.clear();
+        this.cellClickedSignal.clear();
+        this.root.remove();
+    }
+
+    /**
+     * @param parent - Element to add the mirror to. It should be next to the canvas.
+     */
+    constructor(parent: HTMLElement) {
+        this.root = document.createElement("div");
+
+        this.grid = createHiddenElement(this.root, "grid");
+        this.grid.setAttribute("aria-label", "Minesweeper board");
+
+        this.grid.addEventListener("focusin", (event) => {
+            const point = this.getCellPoint(event.target);
+
+            if (point === null) return;
+
+            this.setFocusablePoint(point);
+            this.cellFocusedSignal.emit(point);
+        });
+
+        this.minesLeftRegion = createHiddenElement(this.root, "status");
+
+        // A timer isn't announced on its own, it would interrupt every second.
+        this.timerRegion = createHiddenElement(this.root, "timer");
+        this.timerRegion.setAttribute("aria-label", "Time");
+
+        this.resultRegion = createHiddenElement(this.root, "alert");
+
+        parent.appendChild(this.root);
+
+        this.timeSeconds = 0;
+    }
+}
@@ -1,29 +1,125 @@
-type MinesweeperDifficulty = "beginner" | "intermediate" | "expert" | "custom";
+import { FirstClickPolicy } from "./core/bomb-layout";
+import { Replay, decodeReplay } from "./core/replay";
+import { TopologyName } from "./core/topology";
+
+export type MinesweeperDifficulty = "beginner" | "intermediate" | "expert" | "custom";
+
+/**
+ * How the neighbors of a number are opened with the mouse:
+ * - `"left"`: left click on the number.
+ * - `"both"`: left and right buttons together, like in Windows XP.
+ * - `"middle"`: middle button.
+ * - `"disabled"`: never.
+ */
+export type ChordingScheme = "left" | "both" | "middle" | "disabled";
 
 export type BoardSettings = {
     readonly width: number,
     readonly height: number,
     readonly bombs: number,
+
+    /**
+     * How the tiles are connected. Missing means `"flat"`, like in the records stored before it was added.
+     */
+    readonly topology?: TopologyName,
 }
 
-const BEGINNER_SETTINGS: BoardSettings = {
+export const BEGINNER_SETTINGS: BoardSettings = {
     width: 9,
     height: 9,
     bombs: 10,
 }
 
-const INTERMEDIATE_SETTINGS: BoardSettings = {
+export const INTERMEDIATE_SETTINGS: BoardSettings = {
     width: 16,
     height: 16,
     bombs: 40,
 }
 
-const EXPERT_SETTINGS: BoardSettings = {
+export const EXPERT_SETTINGS: BoardSettings = {
     width: 30,
     height: 16,
     bombs: 99,
 }
 
+export const DEFAULT_LONG_PRESS_MS = 400;
+const MIN_LONG_PRESS_MS = 100;
+const MAX_LONG_PRESS_MS = 2000;
+
+/**
+ * Finds the difficulty of board settings.
+ * @returns The difficulty with the same settings, or `"custom"` if there's none.
+ */
+export function getBoardSettingsDifficulty(settings: BoardSettings): MinesweeperDifficulty {
+    for (const [difficulty, difficultySettings] of [
+        ["beginner", BEGINNER_SETTINGS],
+        ["intermediate", INTERMEDIATE_SETTINGS],
+        ["expert", EXPERT_SETTINGS],
+    ] as const) {
+        if (isSameBoardSize(settings, difficultySettings)) return difficulty;
+    }
+
+    return "custom";
+}
+
+/**
+ * Compares the size and the bombs of boards, but not their topology. A difficulty is the same on every topology.
+ */
+function isSameBoardSize(a: BoardSettings, b: BoardSettings): boolean {
+    return a.width === b.width && a.height === b.height && a.bombs === b.bombs;
+}
+
+export function isSameBoardSettings(a: BoardSettings, b: BoardSettings): boolean {
+    return isSameBoardSize(a, b) && (a.topology ?? "flat") === (b.topology ?? "flat");
+}
+
+/**
+ * @returns A name of the board settings to show to the player, e.g. "Expert", "20×20, 50 bombs" or "Beginner (torus)".
+ */
+export function getBoardSettingsLabel(settings: BoardSettings): string {
+    const sizeLabel = getBoardSizeLabel(settings);
+
+    switch (settings.topology ?? "flat") {
+        case "flat":
+            return sizeLabel;
+        case "torus":
+            return `${sizeLabel} (torus)`;
+        case "hex":
+            return `${sizeLabel} (hex)`;
+    }
+}
+
+function getBoardSizeLabel(settings: BoardSettings): string {
+    switch (getBoardSettingsDifficulty(settings)) {
+        case "beginner":
+            return "Beginner";
+        case "intermediate":
+            return "Intermediate";
+        case "expert":
+            return "Expert";
+        case "custom":
+            return `${settings.width}×${settings.height}, ${settings.bombs} bombs`;
+    }
+}
+
+/**
+ * Lists the difficulties on the flat board and then the other boards among the given ones, without duplicates.
+ * Used to show a table for every difficulty even when it has no records yet.
+ * @param boards - Boards with records. Other fields than the settings are dropped.
+ */
+export function getBoardSettingsWithDifficulties(boards: readonly BoardSettings[]): BoardSettings[] {
+
+    const result: BoardSettings[] = [BEGINNER_SETTINGS, INTERMEDIATE_SETTINGS, EXPERT_SETTINGS];
+
+    for (const { width, height, bombs, topology = "flat" } of boards) {
+        if (result.some(board => isSameBoardSettings(board, { width, height, bombs, topology }))) continue;
+
+        result.push({ width, height, bombs, topology });
+    }
+
+    return result;
+}
+
 function getUrlParamsDifficulty(): MinesweeperDifficulty {
 
     const urlParams = new URLSearchParams(window.location.search);
@@ -44,6 +140,192 @@ function getUrlParamsDifficulty(): MinesweeperDifficulty {
     }
 }
 
+export function getUrlParamsFirstClickPolicy(): FirstClickPolicy {
+
+    const urlParams = new URLSearchParams(window.location.search);
+
+    const param = urlParams.get("firstClick");
+
+    switch (param) {
+        case null:
+            return "safe";
+        case "none":
+        case "safe":
+        case "opening":
+            return param;
+        default:
+            console.warn(`Unknown first click policy: ${param}`)
+            return "safe";
+    }
+}
+
+export function getUrlParamsSeed(): string | null {
+
+    const urlParams = new URLSearchParams(window.location.search);
+
+    const param = urlParams.get("seed");
+
+    if (param === "") {
+        console.warn("Empty seed. Falling back to a random board.");
+        return null;
+    }
+
+    return param;
+}
+
+export function getUrlParamsMarks(): boolean {
+
+    const urlParams = new URLSearchParams(window.location.search);
+
+    const param = urlParams.get("marks");
+
+    switch (param) {
+        case null:
+        case "true":
+            return true;
+        case "false":
+            return false;
+        default:
+            console.warn(`Unknown marks value: ${param}`)
+            return true;
+    }
+}
+
+export function getUrlParamsNoGuess(): boolean {
+
+    const urlParams = new URLSearchParams(window.location.search);
+
+    const param = urlParams.get("noGuess");
+
+    switch (param) {
+        case null:
+        case "false":
+            return false;
+        case "true":
+            return true;
+        default:
+            console.warn(`Unknown noGuess value: ${param}`)
+            return false;
+    }
+}
+
+/**
+ * Ranked games are played without any assistance: no hints, no undo and no mine probabilities.
+ */
+export function getUrlParamsRanked(): boolean {
+
+    const urlParams = new URLSearchParams(window.location.search);
+
+    const param = urlParams.get("ranked");
+
+    switch (param) {
+        case null:
+        case "false":
+            return false;
+        case "true":
+            return true;
+        default:
+            console.warn(`Unknown ranked value: ${param}`)
+            return false;
+    }
+}
+
+/**
+ * How the tiles of the board are connected: `flat`, `torus`, where the edges wrap around, or `hex`, with hexagonal tiles.
+ */
+export function getUrlParamsTopology(): TopologyName {
+
+    const urlParams = new URLSearchParams(window.location.search);
+
+    const param = urlParams.get("topology");
+
+    switch (param) {
+        case null:
+            return "flat";
+        case "flat":
+        case "torus":
+        case "hex":
+            return param;
+        default:
+            console.warn(`Unknown topology: ${param}`)
+            return "flat";
+    }
+}
+
+export function getUrlParamsChording(): ChordingScheme {
+
+    const urlParams = new URLSearchParams(window.location.search);
+
+    const param = urlParams.get("chording");
+
+    switch (param) {
+        case null:
+            return "left";
+        case "left":
+        case "both":
+        case "middle":
+        case "disabled":
+            return param;
+        default:
+            console.warn(`Unknown chording scheme: ${param}`)
+            return "left";
+    }
+}
+
+/**
+ * How long a touch has to be held to flag a tile, in milliseconds.
+ */
+export function getUrlParamsLongPressMS(): number {
+
+    const urlParams = new URLSearchParams(window.location.search);
+
+    const param = urlParams.get("longPress");
+
+    if (param === null) return DEFAULT_LONG_PRESS_MS;
+
+    const longPressMS = Number(param);
+
+    if (!Number.isInteger(longPressMS) || longPressMS < MIN_LONG_PRESS_MS || longPressMS > MAX_LONG_PRESS_MS) {
+        console.warn(`Invalid long press duration: ${param}. It should be between ${MIN_LONG_PRESS_MS} and ${MAX_LONG_PRESS_MS} ms.`);
+        return DEFAULT_LONG_PRESS_MS;
+    }
+
+    return longPressMS;
+}
+
+/**
+ * Whether to show the flag mode button in the header. By default it's shown on touch screens.
+ */
+export function getUrlParamsFlagModeButton(): boolean {
+
+    const urlParams = new URLSearchParams(window.location.search);
+
+    const param = urlParams.get("flagMode");
+
+    switch (param) {
+        case null:
+            return window.matchMedia("(pointer: coarse)").matches;
+        case "true":
+            return true;
+        case "false":
+            return false;
+        default:
+            console.warn(`Unknown flagMode value: ${param}`)
+            return false;
+    }
+}
+
+export function getUrlParamsReplay(): Replay | null {
+
+    const urlParams = new URLSearchParams(window.location.search);
+
+    const param = urlParams.get("replay");
+
+    if (param === null) return null;
+
+    return decodeReplay(param);
+}
+
 export function getUrlParamsBoardSettings(): BoardSettings {
 
     const difficulty = getUrlParamsDifficulty();
@@ -83,29 +365,82 @@ function getUrlParamsCustomBoardSettings(): BoardSettings | null {
         return null;
     }
 
-    const width = parseInt(widthParam);
-    const height = parseInt(heightParam);
-    const bombs = parseInt(bombsParam);
+    const result = parseCustomBoardSettings(widthParam, heightParam, bombsParam);
 
-    if (isNaN(width) || isNaN(height) || isNaN(bombs)) {
-        console.error("Invalid custom settings: 'width', 'height', or 'bombs' is NaN.");
+    if ("error" in result) {
+        console.error(result.error);
         return null;
     }
 
+    return result.settings;
+}
+
+/**
+ * Parses and validates the size and bombs of a custom board, from the URL params or the custom board dialog.
+ * @returns The board settings, or an error that can be shown to the player.
+ */
+export function parseCustomBoardSettings(widthText: string, heightText: string, bombsText: string): { settings: BoardSettings } | { error: string } {
+
+    const width = parseInt(widthText);
+    const height = parseInt(heightText);
+    const bombs = parseInt(bombsText);
+
+    if (isNaN(width) || isNaN(height) || isNaN(bombs)) {
+        return { error: "Width, height and bombs should be numbers." };
+    }
+
     if (bombs < 1) {
-        console.error("There should be at least one bomb.");
-        return null;
+        return { error: "There should be at least one bomb." };
     }
 
     if (bombs >= width * height) {
-        console.error("There can't be more bombs than tiles.");
-        return null;
+        return { error: "There can't be more bombs than tiles." };
     }
 
     if (height < 1 || width < 8) {
-        console.error("The board should be at least 8 tiles wide and 1 tile high.")
-        return null;
+        return { error: "The board should be at least 8 tiles wide and 1 tile high." };
     }
 
-    return { width, height, bombs };
+    return { settings: { width, height, bombs } };
+}
+
+/**
+ * Changes URL params without reloading the page, so a reload keeps the settings chosen in the game.
+ * @param params - Params to set. `null` removes a param.
+ */
+function setUrlParams(params: Record<string, string | null>) {
+
+    const url = new URL(window.location.href);
+
+    for (const [name, value] of Object.entries(params)) {
+        if (value === null) {
+            url.searchParams.delete(name);
+        } else {
+            url.searchParams.set(name, value);
+        }
+    }
+
+    window.history.replaceState(null, "", url);
+}
+
+/**
+ * Puts board settings into the URL params. A replay in the URL is dropped, because it's for a different game.
+ */
+export function setUrlParamsBoardSettings(settings: BoardSettings) {
+
+    const difficulty = getBoardSettingsDifficulty(settings);
+
+    const isCustom = difficulty === "custom";
+
+    setUrlParams({
+        difficulty,
+        width: isCustom ? `${settings.width}` : null,
+        height: isCustom ? `${settings.height}` : null,
+        bombs: isCustom ? `${settings.bombs}` : null,
+        replay: null,
+    });
+}
+
+export function setUrlParamsMarks(marks: boolean) {
+    setUrlParams({ marks: `${marks}` });
 }
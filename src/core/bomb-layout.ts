@@ -0,0 +1,144 @@
+import { Point } from "../lib/grid";
+import { assert } from "../utils/assert";
+import { RandomGenerator } from "../utils/random";
+import { shuffleArray } from "../utils/shuffle-array";
+import { FLAT_TOPOLOGY, Topology } from "./topology";
+
+/**
+ * Guarantee given to the player about the first tile they open.
+ *
+ * - `none` — bombs are placed without looking at the first click. The first click can be a bomb.
+ * - `safe` — the first opened tile is never a bomb (Windows XP).
+ * - `opening` — the first opened tile and all of its neighbors are never bombs,
+ *   so the first click always opens an area (Windows 7).
+ */
+export type FirstClickPolicy = "none" | "safe" | "opening";
+
+/**
+ * Returns the indices of tiles that must stay empty to satisfy a first click policy.
+ * Falls back to a weaker policy if the board doesn't have enough room for the bombs.
+ */
+function getProtectedIndices(
+    width: number,
+    height: number,
+    bombs: number,
+    firstClick: Point,
+    policy: FirstClickPolicy,
+    topology: Topology,
+): Set<number> {
+
+    const toIndex = (point: Point) => point.x + width * point.y;
+
+    const size = width * height;
+
+    if (policy === "opening") {
+        const indices = new Set([toIndex(firstClick)]);
+
+        topology.forEachNeighbor(firstClick.x, firstClick.y, width, height, (_x, _y, index) => {
+            indices.add(index);
+        });
+
+        if (size - indices.size >= bombs) return indices;
+
+        console.warn("Not enough room to guarantee an opening on the first click. Falling back to a safe first click.");
+        policy = "safe";
+    }
+
+    if (policy === "safe") {
+        if (size - 1 >= bombs) return new Set([toIndex(firstClick)]);
+
+        console.warn("Not enough room to guarantee a safe first click.");
+    }
+
+    return new Set();
+}
+
+/**
+ * Generates a random bomb layout.
+ * @param width - Width of the board.
+ * @param height - Height of the board.
+ * @param bombs - Number of bombs on the board.
+ * @param firstClick - The first tile opened by the player. Can be `null` if the policy is `none`.
+ * @param policy - Guarantee given to the player about the first click.
+ * @param random - Source of random numbers. Defaults to `Math.random`.
+ * @param topology - How the tiles are connected. Defaults to the flat board.
+ * @returns Array indicating bomb positions in row-major order (true for bomb, false for empty).
+ * @throws {Error} If there are more bombs than tiles, or if the first click is missing for a policy that needs it.
+ */
+export function generateBombsArray(
+    width: number,
+    height: number,
+    bombs: number,
+    firstClick: Point | null,
+    policy: FirstClickPolicy,
+    random: RandomGenerator = Math.random,
+    topology: Topology = FLAT_TOPOLOGY,
+): boolean[] {
+    assert(bombs <= width * height, "There can't be more bombs than tiles");
+    assert(firstClick !== null || policy === "none", "First click is required to apply a first click policy");
+
+    const protectedIndices = firstClick === null
+        ? new Set<number>()
+        : getProtectedIndices(width, height, bombs, firstClick, policy, topology);
+
+    // Indices of the tiles that can contain a bomb.
+    const candidateIndices = Array.from({ length: width * height }, (_, index) => index)
+        .filter(index => !protectedIndices.has(index));
+
+    // boolean: true for bomb tile, false for empty tiles.
+    // Generate array filled with bomb tiles and empty tiles and shuffle it to randomize the position.
+    const candidateBombs: boolean[] = new Array(candidateIndices.length)
+        .fill(true, 0, bombs)
+        .fill(false, bombs);
+
+    shuffleArray(candidateBombs, random);
+
+    const bombsArray: boolean[] = new Array(width * height).fill(false);
+
+    for (const [candidateIndex, index] of candidateIndices.entries()) {
+        bombsArray[index] = candidateBombs[candidateIndex];
+    }
+
+    return bombsArray;
+}
+
+/**
+ * Generates random bomb layouts until one passes the check, or the time runs out.
+ * The first click always opens an area, because a layout can't be solved from a single number.
+ * @param width - Width of the board.
+ * @param height - Height of the board.
+ * @param bombs - Number of bombs on the board.
+ * @param firstClick - The first tile opened by the player.
+ * @param isAccepted - Checks a candidate layout. It's given the deadline, and should reject the layout once it's passed.
+ * @param timeBudgetMS - How long to look for an accepted layout.
+ * @param random - Source of random numbers. Defaults to `Math.random`.
+ * @param topology - How the tiles are connected. Defaults to the flat board.
+ * @returns The first accepted layout, or the last candidate if the time ran out.
+ */
+export function generateBombsArrayWithCheck(
+    width: number,
+    height: number,
+    bombs: number,
+    firstClick: Point,
+    isAccepted: (bombsArray: boolean[], deadline: number) => boolean,
+    timeBudgetMS: number,
+    random: RandomGenerator = Math.random,
+    topology: Topology = FLAT_TOPOLOGY,
+): boolean[] {
+    const deadline = performance.now() + timeBudgetMS;
+
+    let attempts = 0;
+
+    while (true) {
+        const bombsArray = generateBombsArray(width, height, bombs, firstClick, "opening", random, topology);
+
+        attempts++;
+
+        if (isAccepted(bombsArray, deadline)) return bombsArray;
+
+        if (performance.now() >= deadline) {
+            console.warn(`Couldn't generate an accepted layout in ${attempts} attempts. Using a random layout instead.`);
+            return bombsArray;
+        }
+    }
+}
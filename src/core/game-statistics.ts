@@ -0,0 +1,166 @@
+import { BoardState, MinesweeperBoard } from "./minesweeper-board";
+import { Point } from "../lib/grid";
+import { Signal } from "../lib/signal";
+
+/**
+ * Represents a finished game.
+ */
+export type GameResult = {
+    readonly isWon: boolean,
+
+    /**
+     * Time of the game in milliseconds.
+     */
+    readonly timeMS: number,
+
+    /**
+     * 3BV of the layout: the minimum number of clicks needed to open the board without flagging.
+     */
+    readonly bbbv: number,
+
+    /**
+     * Clicks on the tiles: opens, chords and flags, even the ones that didn't change the board. Undo and redo don't count.
+     */
+    readonly clicks: number,
+
+    readonly isAssisted: boolean,
+}
+
+/**
+ * Computes the 3BV (Bechtel's Board Benchmark Value) of a layout:
+ * every opening counts as one click, and so does every number that no opening reveals.
+ * @param board - The board. Its bombs should be placed.
+ * @returns The 3BV of the board.
+ */
+export function compute3BV(board: MinesweeperBoard): number {
+
+    const isZero = (point: Point) => {
+        const tileData = board.getTileData(point);
+        return tileData.type === "empty" && tileData.bombNeighbors === 0;
+    };
+
+    const revealed = new Set<number>();
+    const toIndex = (point: Point) => point.x + board.width * point.y;
+
+    let bbbv = 0;
+
+    // Openings: a zero and everything it reveals through the other zeros.
+    for (const start of board.points()) {
+        if (!isZero(start) || revealed.has(toIndex(start))) continue;
+
+        bbbv++;
+
+        const queue: Point[] = [start];
+        revealed.add(toIndex(start));
+
+        for (let i = 0; i < queue.length; i++) {
+            for (const neighbor of board.neighbors(queue[i])) {
+                if (revealed.has(toIndex(neighbor))) continue;
+
+                revealed.add(toIndex(neighbor));
+
+                if (isZero(neighbor)) queue.push(neighbor);
+            }
+        }
+    }
+
+    // Numbers outside the openings.
+    for (const point of board.points()) {
+        if (board.getTileData(point).type === "empty" && !revealed.has(toIndex(point))) {
+            bbbv++;
+        }
+    }
+
+    return bbbv;
+}
+
+/**
+ * @returns 3BV per second, or `null` if the game wasn't won.
+ */
+export function get3BVPerSecond(result: GameResult): number | null {
+    if (!result.isWon || result.timeMS <= 0) return null;
+    return result.bbbv / (result.timeMS / 1000);
+}
+
+/**
+ * @returns 3BV divided by the number of clicks, or `null` if the game wasn't won.
+ */
+export function getEfficiency(result: GameResult): number | null {
+    if (!result.isWon || result.clicks === 0) return null;
+    return result.bbbv / result.clicks;
+}
+
+/**
+ * Counts the clicks of the player on a board and reports the result when the game ends.
+ */
+export class GameStatisticsTracker {
+
+    private readonly board: MinesweeperBoard;
+
+    private readonly getTimeMS: () => number;
+
+    private _clicks: number;
+
+    /**
+     * Only the first end of the game counts. Undoing a lost game doesn't make it unplayed.
+     */
+    private isFinished: boolean;
+
+    /**
+     * This signal is emitted once when the game is won or lost.
+     */
+    readonly finishedSignal: Signal<GameResult> = new Signal();
+
+    /**
+     * Clicks counted so far, to be saved with the game.
+     */
+    public get clicks(): number {
+        return this._clicks;
+    }
+
+    /**
+     * Counts a click of the player on a tile. The board only reports the clicks that change it,
+     * so the input calls it for every click.
+     */
+    public countClick() {
+        this._clicks++;
+    }
+
+    private readonly onBoardStateChanged = (newState: BoardState) => {
+        if (this.isFinished || (newState !== "won" && newState !== "lost")) return;
+
+        this.isFinished = true;
+
+        // The click that ends the game is counted before it's applied to the board.
+        this.finishedSignal.emit({
+            isWon: newState === "won",
+            timeMS: this.getTimeMS(),
+            bbbv: compute3BV(this.board),
+            clicks: this._clicks,
+            isAssisted: this.board.isAssisted,
+        });
+    };
+
+    /**
+     * Stops tracking.
+     */
+    public stop() {
+        this.board.boardStateChangedSignal.disconnect(this.onBoardStateChanged);
+        this.finishedSignal.clear();
+    }
+
+    /**
+     * Starts tracking a game.
+     * @param board - The board of the game.
+     * @param getTimeMS - Returns the time since the start of the game in milliseconds.
+     * @param clicks - Clicks made earlier, when a saved game is resumed.
+     */
+    constructor(board: MinesweeperBoard, getTimeMS: () => number, clicks: number = 0) {
+        this.board = board;
+        this.getTimeMS = getTimeMS;
+        this._clicks = clicks;
+        this.isFinished = board.boardState === "won" || board.boardState === "lost";
+
+        this.board.boardStateChangedSignal.connect(this.onBoardStateChanged);
+    }
+}
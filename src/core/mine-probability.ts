@@ -0,0 +1,166 @@
+import { Grid } from "../lib/grid";
+import { MinesweeperBoard } from "./minesweeper-board";
+import { FrontierGroup, enumerateFrontierGroups, getConstraints, isHidden, isKnownMine } from "./minesweeper-solver";
+
+/**
+ * Multiplies two polynomials given as coefficient arrays,
+ * then scales the result so the biggest coefficient is 1. Only the ratios between the coefficients matter,
+ * and scaling keeps them from overflowing on boards with many groups.
+ */
+function multiplyNormalized(a: number[], b: number[]): number[] {
+    const result: number[] = new Array(a.length + b.length - 1).fill(0);
+
+    for (let i = 0; i < a.length; i++) {
+        if (a[i] === 0) continue;
+
+        for (let j = 0; j < b.length; j++) {
+            result[i + j] += a[i] * b[j];
+        }
+    }
+
+    const max = Math.max(...result);
+
+    return max > 0 ? result.map(value => value / max) : result;
+}
+
+/**
+ * Number of arrangements of each group, indexed by the number of bombs in them.
+ */
+function getArrangementCounts(group: FrontierGroup): number[] {
+    const maxMines = Math.max(...group.arrangements.keys());
+    const counts: number[] = new Array(maxMines + 1).fill(0);
+
+    for (const [mines, { count }] of group.arrangements) {
+        counts[mines] = count;
+    }
+
+    return counts;
+}
+
+/**
+ * Computes the probability of every hidden tile to be a bomb from the player-visible state.
+ *
+ * The frontier (hidden tiles next to open numbers) is split into independent groups, and each group is enumerated.
+ * Groups are then combined with the remaining tiles: an arrangement of the frontier with `k` bombs
+ * can be completed in `C(remaining tiles, bombs left - k)` ways, so it's weighted by that number.
+ * Groups too big to enumerate are treated like the remaining tiles.
+ *
+ * @param board - The board to analyze.
+ * @param trustFlags - Treat flagged tiles as bombs. If the flags contradict the numbers, they're ignored.
+ * @returns A grid with the probability of every hidden tile, and `NaN` for open tiles.
+ * Returns `null` if the visible state has no valid arrangement of bombs.
+ */
+export function computeMineProbabilities(board: MinesweeperBoard, trustFlags: boolean = true): Grid<number> | null {
+    const probabilities = computeWithFlags(board, trustFlags);
+
+    if (probabilities === null && trustFlags) {
+        return computeWithFlags(board, false);
+    }
+
+    return probabilities;
+}
+
+function computeWithFlags(board: MinesweeperBoard, trustFlags: boolean): Grid<number> | null {
+    const groups = enumerateFrontierGroups(getConstraints(board, trustFlags));
+
+    // A group without any valid arrangement means the flags or the numbers contradict each other.
+    if (groups.some(group => group.arrangements.size === 0)) return null;
+
+    const result: number[] = new Array(board.width * board.height).fill(NaN);
+
+    const frontierTiles = new Set(groups.flatMap(group => group.tiles));
+
+    let knownMines = 0;
+    const otherTiles: number[] = [];
+
+    for (const point of board.points()) {
+        const index = point.x + board.width * point.y;
+
+        if (!isHidden(board, point)) continue;
+
+        if (isKnownMine(board, point, trustFlags)) {
+            knownMines++;
+            result[index] = 1;
+        } else if (!frontierTiles.has(index)) {
+            otherTiles.push(index);
+        }
+    }
+
+    const minesLeft = board.bombCount - knownMines;
+
+    // Weight of leaving `k` bombs for the other tiles: C(other tiles, k).
+    const logFactorials: number[] = [0];
+
+    for (let i = 1; i <= otherTiles.length; i++) {
+        logFactorials.push(logFactorials[i - 1] + Math.log(i));
+    }
+
+    const logCombinations = (k: number) => {
+        if (k < 0 || k > otherTiles.length) return -Infinity;
+        return logFactorials[otherTiles.length] - logFactorials[k] - logFactorials[otherTiles.length - k];
+    };
+
+    const groupCounts = groups.map(getArrangementCounts);
+
+    // The weights are relative to the biggest one the frontier can lead to, so they don't overflow.
+    const maxFrontierMines = groupCounts.reduce((sum, counts) => sum + counts.length - 1, 0);
+    let maxLogCombinations = -Infinity;
+
+    for (let mines = 0; mines <= maxFrontierMines; mines++) {
+        maxLogCombinations = Math.max(maxLogCombinations, logCombinations(minesLeft - mines));
+    }
+
+    const getOtherWeight = (frontierMines: number): number => {
+        if (maxLogCombinations === -Infinity) return 0;
+        return Math.exp(logCombinations(minesLeft - frontierMines) - maxLogCombinations);
+    };
+
+    // Probability for the tiles of each group: combine it with every other group and the other tiles.
+    for (const [groupIndex, group] of groups.entries()) {
+        const othersCounts = groupCounts
+            .filter((_, index) => index !== groupIndex)
+            .reduce(multiplyNormalized, [1]);
+
+        let totalWeight = 0;
+        const tileWeights: number[] = new Array(group.tiles.length).fill(0);
+
+        for (const [groupMines, { count, tileMineCounts }] of group.arrangements) {
+            const weight = othersCounts.reduce((sum, othersCount, othersMines) => sum + othersCount * getOtherWeight(groupMines + othersMines), 0);
+
+            totalWeight += count * weight;
+
+            for (let i = 0; i < group.tiles.length; i++) {
+                tileWeights[i] += tileMineCounts[i] * weight;
+            }
+        }
+
+        if (totalWeight === 0) return null;
+
+        for (const [i, tile] of group.tiles.entries()) {
+            result[tile] = tileWeights[i] / totalWeight;
+        }
+    }
+
+    // Probability for the other tiles: the expected number of bombs left for them, divided by their count.
+    if (otherTiles.length > 0) {
+        const frontierCounts = groupCounts.reduce(multiplyNormalized, [1]);
+        let totalWeight = 0;
+        let expectedMines = 0;
+
+        for (const [frontierMines, count] of frontierCounts.entries()) {
+            const weight = count * getOtherWeight(frontierMines);
+            totalWeight += weight;
+            expectedMines += weight * (minesLeft - frontierMines);
+        }
+
+        if (totalWeight === 0) return null;
+
+        for (const tile of otherTiles) {
+            result[tile] = expectedMines / totalWeight / otherTiles.length;
+        }
+    } else if (groups.length === 0 && minesLeft !== 0) {
+        return null;
+    }
+
+    return new Grid(board.width, board.height, result);
+}
@@ -1,8 +1,12 @@
-
-import { Grid, Point, eightWayNeighbors } from "../lib/grid";
+import { Grid, Point } from "../lib/grid";
 import { Signal } from "../lib/signal";
 import { assert } from "../utils/assert";
-import { shuffleArray } from "../utils/shuffle-array";
+import { decodeBase64, encodeBase64 } from "../utils/base64";
+import { createRandom } from "../utils/random";
+import { FirstClickPolicy, generateBombsArray, generateBombsArrayWithCheck } from "./bomb-layout";
+import { isPackedBomb, packTileData, packTileState, unpackTileData, unpackTileState } from "./packed-tile";
+import { solveBoard } from "./minesweeper-solver";
+import { FLAT_TOPOLOGY, TOPOLOGIES, Topology, TopologyName } from "./topology";
 
 /**
  * Represents an empty tile. Also contains a number of neighboring bombs.
@@ -19,10 +23,6 @@ export type BombTile = {
     readonly type: "bomb";
 };
 
-const BOMB_TILE = {
-    type: "bomb",
-} as const satisfies BombTile;
-
 /**
  * Represents data of a tile on a board.
  */
@@ -32,7 +32,7 @@ export type TileData = EmptyTile | BombTile;
  * Represents the mutable state of a tile.
  */
 export type TileState = {
-    state: "default" | "flag";
+    state: "default" | "flag" | "question";
     isOpen: boolean;
     wasClicked: boolean;
 };
@@ -42,6 +42,224 @@ export type TileState = {
  */
 export type BoardState = "not_started" | "active" | "won" | "lost";
 
+/**
+ * Options of a board.
+ */
+export type BoardOptions = {
+    /**
+     * Whether the player can mark tiles with a question mark. Defaults to `false`.
+     */
+    readonly marks?: boolean;
+
+    /**
+     * How the tiles are connected. Defaults to {@link FLAT_TOPOLOGY}.
+     */
+    readonly topology?: Topology;
+};
+
+/**
+ * Options for generating a random board.
+ */
+export type GenerateOptions = BoardOptions & {
+    /**
+     * Guarantee given to the player about the first click. Defaults to `none`.
+     */
+    readonly firstClickPolicy?: FirstClickPolicy;
+
+    /**
+     * Seed for the bomb placement. The same seed, size and first click always produce the same board.
+     * Defaults to `null`, which uses `Math.random`.
+     */
+    readonly seed?: string | null;
+
+    /**
+     * Only accept layouts that can be solved from the first click without guessing.
+     * Implies the `opening` first click policy. Defaults to `false`.
+     */
+    readonly noGuess?: boolean;
+
+    /**
+     * How long to look for a layout without guessing before falling back to a random one.
+     * Defaults to {@link NO_GUESS_TIME_BUDGET_MS}.
+     */
+    readonly noGuessTimeBudgetMS?: number;
+};
+
+/**
+ * Default time budget for generating a layout without guessing.
+ */
+export const NO_GUESS_TIME_BUDGET_MS = 2000;
+
+/**
+ * Represents an action of the player that changed the board.
+ *
+ * - `open` — opened a closed tile.
+ * - `chord` — opened the neighbors of an open tile.
+ * - `flag`, `mark`, `unflag` — changed the state of a closed tile to `flag`, `question` or `default`.
+ * - `undo`, `redo` — undid or redid a move.
+ */
+export type BoardAction =
+    | { readonly type: "open" | "chord" | "flag" | "mark" | "unflag"; readonly point: Point }
+    | { readonly type: "undo" | "redo" };
+
+/**
+ * Represents a change of a single tile.
+ */
+export type TileChange = {
+    readonly point: Point;
+    readonly before: Readonly<TileState>;
+    readonly after: Readonly<TileState>;
+};
+
+/**
+ * Represents a single action of the player and every change it caused.
+ */
+export type Move = {
+    readonly tileChanges: TileChange[];
+    readonly before: MoveCounters;
+    readonly after: MoveCounters;
+};
+
+/**
+ * Board values that are restored together with the tiles when a move is undone or redone.
+ */
+type MoveCounters = {
+    readonly boardState: BoardState;
+    readonly tilesLeftToOpenToWin: number;
+    readonly flagCount: number;
+};
+
+/**
+ * A move of a {@link BoardSnapshot}.
+ */
+type MoveSnapshot = {
+    /**
+     * Four bytes per changed tile, as base64: the index of the tile in row-major order in three bytes,
+     * least significant first, then the state bits of the tile before the move in the high half of a byte
+     * and after it in the low half.
+     */
+    readonly tileChanges: string;
+    readonly before: MoveCounters;
+    readonly after: MoveCounters;
+};
+
+/**
+ * Represents a plain copy of the board that can be stored as JSON and restored later.
+ * It's compact, because the game in progress is saved to the local storage.
+ */
+export type BoardSnapshot = {
+    readonly width: number;
+    readonly height: number;
+    readonly bombCount: number;
+
+    /**
+     * Every tile packed into a byte by the functions of `packed-tile.ts`, in row-major order, as base64.
+     */
+    readonly tiles: string;
+
+    readonly boardState: BoardState;
+    readonly marks: boolean;
+    readonly topology: TopologyName;
+    readonly assisted: boolean;
+    readonly hints: number;
+
+    /**
+     * Move history, so the moves can still be undone and redone after the board is restored.
+     * The last move is at the end of both. Only the last moves are kept, see {@link MAX_SNAPSHOT_TILE_CHANGES}.
+     */
+    readonly undoStack: readonly MoveSnapshot[];
+    readonly redoStack: readonly MoveSnapshot[];
+};
+
+/**
+ * Most tile changes kept in each move history of a snapshot, so a long game on a big board stays small enough to save.
+ * Older moves can't be undone after the board is restored.
+ */
+const MAX_SNAPSHOT_TILE_CHANGES = 100_000;
+
+/**
+ * Most tiles a snapshot can index in the three bytes of a tile change.
+ */
+const MAX_SNAPSHOT_TILES = 1 << 24;
+
+/**
+ * Encodes the last moves of a history that fit in {@link MAX_SNAPSHOT_TILE_CHANGES}.
+ */
+function createMoveSnapshots(moves: readonly Move[], width: number): MoveSnapshot[] {
+    const snapshots: MoveSnapshot[] = [];
+
+    let tileChangeCount = 0;
+
+    for (let i = moves.length - 1; i >= 0; i--) {
+        const { tileChanges, before, after } = moves[i];
+
+        tileChangeCount += tileChanges.length;
+
+        if (tileChangeCount > MAX_SNAPSHOT_TILE_CHANGES) break;
+
+        const bytes = new Uint8Array(tileChanges.length * 4);
+
+        for (const [changeIndex, change] of tileChanges.entries()) {
+            const index = change.point.x + width * change.point.y;
+
+            bytes[changeIndex * 4] = index & 0xff;
+            bytes[changeIndex * 4 + 1] = (index >> 8) & 0xff;
+            bytes[changeIndex * 4 + 2] = index >> 16;
+            bytes[changeIndex * 4 + 3] = packTileState(0, change.before) | (packTileState(0, change.after) >> 4);
+        }
+
+        snapshots.push({ tileChanges: encodeBase64(bytes), before, after });
+    }
+
+    return snapshots.reverse();
+}
+
+/**
+ * Decodes moves encoded with {@link createMoveSnapshots}.
+ * @throws {Error} If a move is malformed.
+ */
+function restoreMoves(snapshots: readonly MoveSnapshot[], width: number, height: number): Move[] {
+    return snapshots.map(({ tileChanges, before, after }) => {
+        const bytes = decodeBase64(tileChanges);
+
+        assert(bytes.length % 4 === 0, "Tile changes of a move should be four bytes each");
+
+        return {
+            tileChanges: Array.from({ length: bytes.length / 4 }, (_, changeIndex) => {
+                const index = bytes[changeIndex * 4] | (bytes[changeIndex * 4 + 1] << 8) | (bytes[changeIndex * 4 + 2] << 16);
+                const states = bytes[changeIndex * 4 + 3];
+
+                assert(index < width * height, "Tile change should be on the board");
+
+                return {
+                    point: { x: index % width, y: Math.floor(index / width) },
+                    before: unpackTileState(states & 0xf0),
+                    after: unpackTileState(states << 4),
+                };
+            }),
+            before,
+            after,
+        };
+    });
+}
+
+/**
+ * Represents a bomb layout that is generated only when the player opens the first tile.
+ */
+export type DeferredBombLayout = {
+    /**
+     * Number of bombs the generated layout will contain.
+     */
+    readonly bombCount: number;
+
+    /**
+     * Generates the layout.
+     * @param firstClick - The first tile opened by the player.
+     * @returns Array indicating bomb positions (true for bomb, false for empty).
+     */
+    readonly generate: (firstClick: Point) => boolean[];
+};
+
 /**
  * Represents the Minesweeper board and manages the game logic.
  * It only contains the game logic and is completely independent of presentation layer.
@@ -53,63 +271,214 @@ export class MinesweeperBoard {
      */
     private _boardState: BoardState = "not_started";
 
-    /** 
-     * Immutable board data.
+    /**
+     * Data and mutable state of every tile, packed into a byte per tile by the functions of `packed-tile.ts`.
+     * The data is immutable once the bombs are placed.
      */
-    private readonly tileData: Grid<TileData>; 
+    private readonly tiles: Grid<number>;
 
-    /** 
-     * Mutable board state.
+    /**
+     * Layout waiting for the first click. `null` once the bombs are placed.
      */
-    private readonly tileState: Grid<TileState>;
-    
+    private deferredLayout: DeferredBombLayout | null = null;
+
     /** 
      * Number of bombs on the board.
      */
     readonly bombCount: number;
 
+    /**
+     * How the tiles are connected.
+     */
+    readonly topology: Topology;
+
     /** 
      * The player wins when this number reaches zero.
      * It's decremented when the player opens a tile.
      */
     private tilesLeftToOpenToWin: number;
 
+    /**
+     * Number of tiles in the `flag` state.
+     */
+    private _flagCount: number = 0;
+
+    /**
+     * Whether `changeTileState` cycles through the question mark state.
+     * Disabling it doesn't clear existing question marks, but they go back to `default` on the next change.
+     */
+    public marksEnabled: boolean;
+
+    /**
+     * Moves that can be undone. The last move is at the end.
+     */
+    private readonly undoStack: Move[] = [];
+
+    /**
+     * Undone moves that can be redone. The last undone move is at the end.
+     */
+    private readonly redoStack: Move[] = [];
+
+    /**
+     * The move that is being recorded, or `null` when the player isn't making a move.
+     * Key is the index of a tile in row-major order, value is the state of the tile before the move.
+     */
+    private recordedTileStates: Map<number, Readonly<TileState>> | null = null;
+
+    /**
+     * Points changed by the action that is being performed, or `null` outside of an action.
+     * They are emitted together with `tilesChangedSignal` when the action ends.
+     */
+    private changedPoints: Point[] | null = null;
+
+    /**
+     * Set when a move is undone or the mine probabilities are shown. An assisted game shouldn't count as a fair win.
+     */
+    private _isAssisted: boolean = false;
+
+    /**
+     * Number of hints the player used during this game.
+     */
+    private _hintCount: number = 0;
+
     /** 
      * This signal is emitted when a tile changes in any way.
      * You can listen to it to update the visual representation of the board in the presentation layer.
      */
     readonly tileChangedSignal: Signal<Point> = new Signal();
 
+    /**
+     * This signal is emitted once per action with every tile it changed, in the order they changed.
+     * Opening a big area emits it once instead of emitting `tileChangedSignal` for every tile,
+     * so prefer it for updating the presentation layer.
+     */
+    readonly tilesChangedSignal: Signal<readonly Point[]> = new Signal();
+
     /**
      * This signal is emitted when the state of the game changes when the player wins or loses.
      */
     readonly boardStateChangedSignal: Signal<BoardState> = new Signal();
 
+    /**
+     * This signal is emitted with the new number of flags when the player places or removes a flag.
+     */
+    readonly flagCountChangedSignal: Signal<number> = new Signal();
+
+    /**
+     * This signal is emitted after an action of the player changed the board.
+     * Actions that didn't change anything aren't emitted.
+     */
+    readonly actionSignal: Signal<BoardAction> = new Signal();
+
+    /**
+     * Gets the number of flagged tiles.
+     * It can be bigger than the number of bombs if the player placed too many flags.
+     * @returns The number of flagged tiles.
+     */
+    public get flagCount(): number {
+        return this._flagCount;
+    }
+
+    /**
+     * Updates the number of flagged tiles and emits the change.
+     * @param newCount - The new number of flagged tiles.
+     */
+    private set flagCount(newCount: number) {
+        if (newCount === this._flagCount) return;
+        this._flagCount = newCount;
+        this.flagCountChangedSignal.emit(this._flagCount);
+    }
+
     /**
      * Checks if a point is within the board bounds.
      * @param point - The point to check.
      * @returns True if the point is within bounds, false otherwise.
      */
     public isPointInBounds(point: Point): boolean {
-        return this.tileData.isInBounds(point);
+        return this.tiles.isInBounds(point);
     }
 
     /**
      * Retrieves the state of a tile at a given point.
      * @param point - The point of the tile.
-     * @returns The state of the tile.
+     * @returns The state of the tile. It's shared with other tiles in the same state, so it can't be changed.
      */
-    public getTileState(point: Point): TileState {
-        return this.tileState.get(point)
+    public getTileState(point: Point): Readonly<TileState> {
+        return unpackTileState(this.tiles.get(point));
     }
 
     /**
      * Retrieves the data of a tile at a given point.
+     * If the bombs are placed on the first click, every tile is empty until then.
      * @param point - The point of the tile.
      * @returns The data of the tile.
      */
     public getTileData(point: Point): TileData {
-        return this.tileData.get(point)
+        return unpackTileData(this.tiles.get(point));
+    }
+
+    /**
+     * Width of the board in tiles.
+     */
+    public get width(): number {
+        return this.tiles.width;
+    }
+
+    /**
+     * Height of the board in tiles.
+     */
+    public get height(): number {
+        return this.tiles.height;
+    }
+
+    /**
+     * Whether the player undid a move, looked at the mine probabilities or used a hint during this game.
+     */
+    public get isAssisted(): boolean {
+        return this._isAssisted || this._hintCount > 0;
+    }
+
+    /**
+     * Number of hints the player used during this game.
+     */
+    public get hintCount(): number {
+        return this._hintCount;
+    }
+
+    /**
+     * Counts a hint against the game. The game becomes assisted.
+     */
+    public countHint() {
+        this._hintCount += 1;
+    }
+
+    /**
+     * Marks the game as assisted, e.g. when the player looks at the mine probabilities.
+     */
+    public markAssisted() {
+        this._isAssisted = true;
+    }
+
+    /**
+     * Whether there is a move to undo.
+     */
+    public get canUndo(): boolean {
+        return this.undoStack.length > 0;
+    }
+
+    /**
+     * Whether there is an undone move to redo.
+     */
+    public get canRedo(): boolean {
+        return this.redoStack.length > 0;
+    }
+
+    /**
+     * Whether the bombs are placed on the board.
+     * It's `false` only before the first click if the bomb placement is deferred.
+     */
+    public get areBombsPlaced(): boolean {
+        return this.deferredLayout === null;
     }
 
     /**
@@ -117,80 +486,427 @@ export class MinesweeperBoard {
      * @returns A generator that yields points.
      */
     public points(): Generator<Point> {
-        return this.tileData.points()
+        return this.tiles.points()
+    }
+
+    /**
+     * Returns the neighbors of a tile according to the topology of the board.
+     * @param point - The point of the tile.
+     * @returns Every neighbor on the board once.
+     */
+    public neighbors(point: Point): Point[] {
+        const neighbors: Point[] = [];
+
+        this.topology.forEachNeighbor(point.x, point.y, this.width, this.height, (x, y) => {
+            neighbors.push({ x, y });
+        });
+
+        return neighbors;
+    }
+
+    /**
+     * Executes a function for every point of the board without allocating the points.
+     * @param action - The function to execute with the coordinates of the point and its index in row-major order.
+     */
+    public forEachPoint(action: (x: number, y: number, index: number) => void) {
+        this.tiles.forEachPoint(action);
     }
 
     /**
      * Creates a new Minesweeper board with random bomb placement.
+     * Unless the policy is `none`, bombs are placed when the player opens the first tile.
      * @param width - Width of the board.
      * @param height - Height of the board.
      * @param bombs - Number of bombs on the board.
+     * @param options - Generation options.
      * @returns A new Minesweeper board.
      * @throws {Error} If the width or height is not greater than zero.
      */
-    public static generate(width: number, height: number, bombs: number): MinesweeperBoard {
-        
-        // boolean: true for bomb tile, false for empty tiles.
-        // Generate array filled with bomb tiles and empty tiles.
-        const bombsArray: boolean[] = new Array(width * height)
-            .fill(true, 0, bombs)
-            .fill(false, bombs);
+    public static generate(
+        width: number,
+        height: number,
+        bombs: number,
+        options: GenerateOptions = {},
+    ): MinesweeperBoard {
+
+        const {
+            firstClickPolicy = "none",
+            seed = null,
+            noGuess = false,
+            noGuessTimeBudgetMS = NO_GUESS_TIME_BUDGET_MS,
+            topology = FLAT_TOPOLOGY,
+        } = options;
+
+        const random = createRandom(seed);
+
+        if (noGuess) {
+            const isSolvable = (firstClick: Point) => (bombsArray: boolean[], deadline: number) => {
+                return solveBoard(new MinesweeperBoard(width, height, bombsArray, { topology }), firstClick, deadline);
+            };
+
+            const deferredLayout: DeferredBombLayout = {
+                bombCount: bombs,
+                generate: (firstClick) => generateBombsArrayWithCheck(
+                    width,
+                    height,
+                    bombs,
+                    firstClick,
+                    isSolvable(firstClick),
+                    noGuessTimeBudgetMS,
+                    random,
+                    topology,
+                ),
+            };
+
+            return new MinesweeperBoard(width, height, deferredLayout, options);
+        }
+
+        if (firstClickPolicy === "none") {
+            const bombsArray = generateBombsArray(width, height, bombs, null, "none", random, topology);
+            return new MinesweeperBoard(width, height, bombsArray, options);
+        }
 
-        // Shuffle the array to randomize the position.
-        shuffleArray(bombsArray);
+        const deferredLayout: DeferredBombLayout = {
+            bombCount: bombs,
+            generate: (firstClick) => generateBombsArray(width, height, bombs, firstClick, firstClickPolicy, random, topology),
+        };
 
-        return new MinesweeperBoard(width, height, bombsArray);
+        return new MinesweeperBoard(width, height, deferredLayout, options);
     }
     
     /**
      * Creates a Minesweeper board.
      * @param width - Width of the board.
      * @param height - Height of the board.
-     * @param bombsArray - Array indicating bomb positions (true for bomb, false for empty).
+     * @param bombs - Array indicating bomb positions (true for bomb, false for empty),
+     * or a layout that will be generated when the player opens the first tile.
+     * @param options - Board options.
      * @throws {Error} If the width or height is not greater than zero.
      */
-    constructor(width: number, height: number, bombsArray: boolean[]) {
+    constructor(width: number, height: number, bombs: boolean[] | DeferredBombLayout, options: BoardOptions = {}) {
         assert(width > 0, "Width should be greater than zero");
         assert(height > 0, "Height should be greater than zero");
-        assert(bombsArray.length === width * height, "Bomb array should be as long as the size of the cells of the grid");
 
-        // TODO: Check what cell did the player click first, if it's a bomb, find a first empty cell and swap them.
+        this.marksEnabled = options.marks ?? false;
+        this.topology = options.topology ?? FLAT_TOPOLOGY;
+
+        let bombsArray: boolean[];
+
+        if (Array.isArray(bombs)) {
+            bombsArray = bombs;
+            this.bombCount = bombsArray.filter(isBomb => isBomb).length;
+        } else {
+            // Until the first click the board is treated as if it had no bombs.
+            bombsArray = new Array(width * height).fill(false);
+            this.bombCount = bombs.bombCount;
+            this.deferredLayout = bombs;
+        }
+
+        // Every tile starts closed in the default state, which is all zero bits.
+        this.tiles = new Grid(width, height, new Uint8Array(width * height));
+
+        this.setBombs(bombsArray);
+
+        // Calculate the number of tiles player needs to open to win the game.
+        this.tilesLeftToOpenToWin = (width * height) - this.bombCount;
+    }
+
+    /**
+     * Restores a board from a snapshot created with {@link MinesweeperBoard.toSnapshot}.
+     * @param snapshot - The snapshot to restore.
+     * @returns The restored board. Its signals aren't connected to anything.
+     * @throws {Error} If the snapshot is malformed.
+     */
+    public static fromSnapshot(snapshot: BoardSnapshot): MinesweeperBoard {
+        const { width, height, bombCount, boardState, marks, topology, assisted, hints, undoStack, redoStack } = snapshot;
+
+        const tiles = decodeBase64(snapshot.tiles);
+
+        assert(tiles.length === width * height, "Tile array should be as long as the size of the cells of the grid");
+        assert(topology in TOPOLOGIES, `Unknown topology: ${topology}`);
+
+        const board = new MinesweeperBoard(width, height, Array.from(tiles, isPackedBomb), { marks, topology: TOPOLOGIES[topology] });
+
+        assert(board.bombCount === bombCount, "Bomb count should match the bombs of the tiles");
+
+        board.forEachPoint((_x, _y, index) => {
+            const tileState = unpackTileState(tiles[index]);
+
+            board.tiles.setAt(index, packTileState(board.tiles.getAt(index), tileState));
 
-        // Create an intermediary bomb grid so we can calculate the bomb neighbors.
-        const bombsGrid = new Grid(width, height, bombsArray);
+            if (tileState.state === "flag") board._flagCount += 1;
+
+            if (tileState.isOpen && !isPackedBomb(board.tiles.getAt(index))) {
+                board.tilesLeftToOpenToWin -= 1;
+            }
+        });
+
+        board._boardState = boardState;
+        board._isAssisted = assisted;
+        board._hintCount = hints;
+
+        // Pushed one by one, a spread could overflow the call stack on a long game.
+        for (const move of restoreMoves(undoStack, width, height)) {
+            board.undoStack.push(move);
+        }
+
+        for (const move of restoreMoves(redoStack, width, height)) {
+            board.redoStack.push(move);
+        }
+
+        return board;
+    }
+
+    /**
+     * Creates a snapshot of the board. Restore it with {@link MinesweeperBoard.fromSnapshot}.
+     * @returns A snapshot that contains only plain data and can be serialized to JSON.
+     * @throws {Error} If the bombs aren't placed yet.
+     */
+    public toSnapshot(): BoardSnapshot {
+        assert(this.areBombsPlaced, "Can't create a snapshot before the bombs are placed");
+        assert(this.tiles.size <= MAX_SNAPSHOT_TILES, `Can't create a snapshot of a board with more than ${MAX_SNAPSHOT_TILES} tiles`);
+
+        const tiles = new Uint8Array(this.tiles.size);
+
+        for (let index = 0; index < tiles.length; index++) {
+            tiles[index] = this.tiles.getAt(index);
+        }
+
+        return {
+            width: this.width,
+            height: this.height,
+            bombCount: this.bombCount,
+            tiles: encodeBase64(tiles),
+            boardState: this.boardState,
+            marks: this.marksEnabled,
+            topology: this.topology.name,
+            assisted: this._isAssisted,
+            hints: this._hintCount,
+            undoStack: createMoveSnapshots(this.undoStack, this.width),
+            redoStack: createMoveSnapshots(this.redoStack, this.width),
+        };
+    }
+
+    /**
+     * @returns Bomb positions in row-major order (true for bomb, false for empty).
+     * @throws {Error} If the bombs aren't placed yet.
+     */
+    public getBombs(): boolean[] {
+        assert(this.areBombsPlaced, "Can't get the bombs before they are placed");
+
+        return Array.from({ length: this.tiles.size }, (_, index) => isPackedBomb(this.tiles.getAt(index)));
+    }
+
+    /**
+     * Writes the data of every tile from the bomb positions, keeping the state of the tiles.
+     * @param bombsArray - Array indicating bomb positions (true for bomb, false for empty).
+     * @throws {Error} If the length of the array doesn't match the size of the board.
+     */
+    private setBombs(bombsArray: boolean[]) {
+        assert(bombsArray.length === this.tiles.size, "Bomb array should be as long as the size of the cells of the grid");
+
+        const { width, height } = this.tiles;
+
+        this.tiles.forEachPoint((x, y, index) => {
+            const isBomb = bombsArray[index];
 
-        this.tileData = bombsGrid.mapIndexed((point, isBomb) => {
-            if (isBomb) return BOMB_TILE;
-                
             // If the tile is not a bomb, count how many bombs are near it
-            const bombNeighbors = Array.from(eightWayNeighbors(point))
-                .filter(point => bombsGrid.getOrNull(point) ?? false)
-                .length;
+            let bombNeighbors = 0;
 
-            const tileData: TileData = {
-                type: "empty",
-                bombNeighbors,
-            } as const;
+            if (!isBomb) {
+                this.topology.forEachNeighbor(x, y, width, height, (_neighborX, _neighborY, neighborIndex) => {
+                    if (bombsArray[neighborIndex]) bombNeighbors++;
+                });
+            }
 
-            return tileData;
+            this.tiles.setAt(index, packTileData(this.tiles.getAt(index), isBomb, bombNeighbors));
         });
+    }
 
-        const tileStateArray: TileState[] = Array.from(
-            { length: width * height },
-            () => ({
-                state: "default",
-                isOpen: false,
-                wasClicked: false,
-            }),
+    /**
+     * Places the bombs of a deferred layout. Does nothing if the bombs are already placed.
+     * @param firstClick - The first tile opened by the player.
+     */
+    private placeDeferredBombs(firstClick: Point) {
+        if (this.deferredLayout === null) return;
+
+        const bombsArray = this.deferredLayout.generate(firstClick);
+
+        assert(
+            bombsArray.filter(isBomb => isBomb).length === this.bombCount,
+            "Deferred layout should contain the promised number of bombs",
         );
 
-        this.tileState = new Grid(width, height, tileStateArray);
+        this.setBombs(bombsArray);
+        this.deferredLayout = null;
+    }
+
+    /**
+     * Changes the state of a tile, records the change if a move is being recorded, and emits the change.
+     * @param point - The point of the tile to change.
+     * @param changes - Fields of the tile state to change.
+     */
+    private updateTileState(point: Point, changes: Partial<TileState>) {
+        const tile = this.tiles.get(point);
+        const tileState = unpackTileState(tile);
+
+        if (this.recordedTileStates !== null) {
+            const index = point.x + this.width * point.y;
 
-        // Count bombs and store the number.
-        this.bombCount = bombsArray.filter(isBomb => isBomb).length;
+            // Only the state before the first change in a move matters.
+            if (!this.recordedTileStates.has(index)) {
+                this.recordedTileStates.set(index, tileState);
+            }
+        }
 
-        // Calculate the number of tiles player needs to open to win the game.
-        this.tilesLeftToOpenToWin = (width * height) - this.bombCount;
+        this.tiles.set(point, packTileState(tile, { ...tileState, ...changes }));
+
+        this.tileChangedSignal.emit(point);
+
+        if (this.changedPoints !== null) {
+            this.changedPoints.push(point);
+        } else {
+            this.tilesChangedSignal.emit([point]);
+        }
+    }
+
+    /**
+     * Performs an action and emits `tilesChangedSignal` once with all the tiles it changed.
+     * @param action - The action to perform.
+     */
+    private batchTileChanges<T>(action: () => T): T {
+        assert(this.changedPoints === null, "Actions can't be nested");
+
+        this.changedPoints = [];
+
+        try {
+            return action();
+        } finally {
+            const changedPoints = this.changedPoints;
+            this.changedPoints = null;
+
+            if (changedPoints.length > 0) {
+                this.tilesChangedSignal.emit(changedPoints);
+            }
+        }
+    }
+
+    private getMoveCounters(): MoveCounters {
+        return {
+            boardState: this.boardState,
+            tilesLeftToOpenToWin: this.tilesLeftToOpenToWin,
+            flagCount: this.flagCount,
+        };
+    }
+
+    private setMoveCounters(counters: MoveCounters) {
+        this.tilesLeftToOpenToWin = counters.tilesLeftToOpenToWin;
+        this.flagCount = counters.flagCount;
+
+        if (this.boardState !== counters.boardState) {
+            this.boardState = counters.boardState;
+        }
+    }
+
+    /**
+     * Performs an action of the player and adds every change it caused to the move history.
+     * Actions that didn't change anything aren't added.
+     * The history starts after the move that placed the bombs of a deferred layout. Undoing that move would
+     * bring back a board without bombs, and the next first click could hit one.
+     * @param action - The action to perform.
+     * @returns `true` if the action changed the board.
+     */
+    private recordMove(action: () => void): boolean {
+        // The tiles are emitted after the move is added to the history.
+        return this.batchTileChanges(() => {
+            assert(this.recordedTileStates === null, "Moves can't be nested");
+
+            const before = this.getMoveCounters();
+            const wereBombsPlaced = this.areBombsPlaced;
+
+            this.recordedTileStates = new Map();
+
+            let isRecorded = false;
+
+            try {
+                action();
+            } finally {
+                const recordedTileStates = this.recordedTileStates;
+                this.recordedTileStates = null;
+
+                const tileChanges: TileChange[] = Array.from(recordedTileStates, ([index, tileStateBefore]) => {
+                    const point = { x: index % this.width, y: Math.floor(index / this.width) };
+                    return { point, before: tileStateBefore, after: this.getTileState(point) };
+                });
+
+                const after = this.getMoveCounters();
+
+                if (tileChanges.length > 0 || before.boardState !== after.boardState) {
+                    this.redoStack.length = 0;
+                    isRecorded = true;
+
+                    if (!wereBombsPlaced && this.areBombsPlaced) {
+                        this.undoStack.length = 0;
+                    } else {
+                        this.undoStack.push({ tileChanges, before, after });
+                    }
+                }
+            }
+
+            return isRecorded;
+        });
+    }
+
+    /**
+     * Reverts the last move. Undoing a lost game is allowed, but it marks the game as assisted.
+     * Emits `tileChangedSignal` for every restored tile, and `tilesChangedSignal` once for all of them.
+     * @returns `true` if a move was undone, `false` if there was nothing to undo.
+     */
+    public undo(): boolean {
+        const move = this.undoStack.pop();
+
+        if (move === undefined) return false;
+
+        this._isAssisted = true;
+
+        this.batchTileChanges(() => {
+            for (const { point, before } of move.tileChanges) {
+                this.updateTileState(point, before);
+            }
+
+            this.setMoveCounters(move.before);
+        });
+
+        this.redoStack.push(move);
+
+        this.actionSignal.emit({ type: "undo" });
+
+        return true;
+    }
+
+    /**
+     * Applies the last undone move again.
+     * Emits `tileChangedSignal` for every restored tile, and `tilesChangedSignal` once for all of them.
+     * @returns `true` if a move was redone, `false` if there was nothing to redo.
+     */
+    public redo(): boolean {
+        const move = this.redoStack.pop();
+
+        if (move === undefined) return false;
+
+        this.batchTileChanges(() => {
+            for (const { point, after } of move.tileChanges) {
+                this.updateTileState(point, after);
+            }
+
+            this.setMoveCounters(move.after);
+        });
+
+        this.undoStack.push(move);
+
+        this.actionSignal.emit({ type: "redo" });
+
+        return true;
     }
 
     /**
@@ -203,49 +919,64 @@ export class MinesweeperBoard {
         if (this.tilesLeftToOpenToWin !== 0) return;
 
         // Flag all bombs
-        for (const point of this.tileData.points()) {
-            const tileData = this.tileData.get(point);
-
-            if (tileData.type !== "bomb") continue;
+        this.tiles.forEachPoint((x, y, index) => {
+            const tile = this.tiles.getAt(index);
 
-            const tileState = this.tileState.get(point);
+            if (!isPackedBomb(tile) || unpackTileState(tile).state === "flag") return;
 
-            if (tileState.state === "flag") continue;
-
-            tileState.state = "flag";
+            this.updateTileState({ x, y }, { state: "flag" });
+        });
 
-            this.tileChangedSignal.emit(point);
-        }
+        // Every closed tile is a bomb now, and every bomb is flagged.
+        this.flagCount = this.bombCount;
 
         this.boardState = "won";
     }
 
     /**
-     * Toggles the state of a tile between "default" and "flag".
+     * Cycles the state of a tile: "default" → "flag" → "question" → "default".
+     * The "question" state is skipped if marks are disabled.
      * @param point - The point of the tile to change.
      */
     public changeTileState(point: Point) {
+        const isRecorded = this.recordMove(() => {
 
-        if (this.boardState === "not_started") {
-            this.boardState = "active";
-        }
+            if (this.boardState === "not_started") {
+                this.boardState = "active";
+            }
 
-        if (this._boardState !== "active") return;
+            if (this._boardState !== "active") return;
 
-        const tileState = this.tileState.get(point);
+            const tileState = this.getTileState(point);
 
-        if (tileState.isOpen) return;
+            if (tileState.isOpen) return;
 
-        switch (tileState.state) {
-            case "default":
-                tileState.state = "flag";
-                break;
-            case "flag":
-                tileState.state = "default";
-                break;
-        }
+            switch (tileState.state) {
+                case "default":
+                    this.updateTileState(point, { state: "flag" });
+                    this.flagCount += 1;
+                    break;
+                case "flag":
+                    this.updateTileState(point, { state: this.marksEnabled ? "question" : "default" });
+                    this.flagCount -= 1;
+                    break;
+                case "question":
+                    this.updateTileState(point, { state: "default" });
+                    break;
+            }
+        });
 
-        this.tileChangedSignal.emit(point);
+        if (!isRecorded) return;
+
+        const newState = this.getTileState(point).state;
+
+        const actionTypes = {
+            default: "unflag",
+            flag: "flag",
+            question: "mark",
+        } as const;
+
+        this.actionSignal.emit({ type: actionTypes[newState], point });
     }
 
     /**
@@ -266,42 +997,62 @@ export class MinesweeperBoard {
     }
 
     /**
-     * Opens a tile and recursively opens neighboring tiles if there are no bomb neighbors.
-     * The tile should not be open and be in the `default` state.
-     * This method won't work if you need to open a tile in the `flag` state.
+     * Opens a tile and the area around it if there are no bomb neighbors.
+     * The tile should not be open and not be in the `flag` state.
+     * A question mark is removed when the tile is opened.
      * @param point - The point of the tile to open.
      * @param wasClicked - Whether the tile was opened by a direct click.
      */
     private setTileOpen(point: Point, wasClicked: boolean = false) {
         
-        const tileState = this.tileState.get(point);
-        const tileData = this.tileData.get(point);
+        const tileState = this.getTileState(point);
 
         if (tileState.isOpen) {
             console.warn(`Tried to open a tile that was already open: ${point.x}, ${point.y}`);
             return;
         };
 
-        if (tileState.state !== "default") {
-            console.warn(`Tried to open a tile not in the default state. Current state: ${tileState.state}. At: ${point.x}, ${point.y}`);
+        if (tileState.state === "flag") {
+            console.warn(`Tried to open a flagged tile at: ${point.x}, ${point.y}`);
             return;
         }
 
-        tileState.isOpen = true;
-        tileState.wasClicked = wasClicked;
+        this.openSingleTile(point, wasClicked);
 
-        this.tileChangedSignal.emit(point);
+        // Flood fill with a queue instead of recursion, which overflows the call stack on big boards.
+        // Tiles are opened when they are queued, so no tile is queued twice.
+        const queue: Point[] = [point];
 
-        if (tileData.type !== "empty") return;
+        for (let i = 0; i < queue.length; i++) {
+            const tileData = this.getTileData(queue[i]);
 
-        this.tilesLeftToOpenToWin -= 1;
+            if (tileData.type !== "empty" || tileData.bombNeighbors !== 0) continue;
 
-        if (tileData.bombNeighbors !== 0) return;
-    
-        // Continue opening tiles recursively
-        for (const neighborPoint of eightWayNeighbors(point)) {
-            if (!this.tileData.isInBounds(neighborPoint)) continue;
-            this.setTileOpen(neighborPoint);
+            for (const neighborPoint of this.neighbors(queue[i])) {
+                const neighborState = this.getTileState(neighborPoint);
+
+                // Flagged tiles stay closed, open tiles were already visited.
+                if (neighborState.isOpen || neighborState.state === "flag") continue;
+
+                this.openSingleTile(neighborPoint, false);
+
+                queue.push(neighborPoint);
+            }
+        }
+    }
+
+    /**
+     * Opens a tile without opening the area around it.
+     */
+    private openSingleTile(point: Point, wasClicked: boolean) {
+        this.updateTileState(point, {
+            state: "default",
+            isOpen: true,
+            wasClicked,
+        });
+
+        if (this.getTileData(point).type === "empty") {
+            this.tilesLeftToOpenToWin -= 1;
         }
     }
 
@@ -310,41 +1061,51 @@ export class MinesweeperBoard {
      * @param point - The point of the tile to click.
      */
     public clickTile(point: Point) {
+        const type = this.isPointInBounds(point) && this.getTileState(point).isOpen ? "chord" : "open";
 
-        if (this.boardState === "not_started") {
-            this.boardState = "active";
-        }
+        const isRecorded = this.recordMove(() => {
 
-        if (this.boardState !== "active") {
-            console.warn("Tried to click on tile when the board is not in the active state");
-            return;
-        };
+            if (this.boardState === "not_started") {
+                this.boardState = "active";
+            }
 
-        const tileState = this.getTileState(point);
+            if (this.boardState !== "active") {
+                console.warn("Tried to click on tile when the board is not in the active state");
+                return;
+            };
 
-        if (tileState.isOpen) {
-            this.openNeighbors(point);
-        } else {
-            this.openTile(point);
+            this.placeDeferredBombs(point);
+
+            const tileState = this.getTileState(point);
+
+            if (tileState.isOpen) {
+                this.openNeighbors(point);
+            } else {
+                this.openTile(point);
+            }
+        });
+
+        if (isRecorded) {
+            this.actionSignal.emit({ type, point });
         }
     }
 
     /**
-     * Opens a tile if it's in the "default" state.
+     * Opens a tile if it's not flagged.
      * Triggers win or lose conditions.
      * @param point - The point of the tile to open.
      */
     private openTile(point: Point) {
-        const tileState = this.tileState.get(point);
+        const tileState = this.getTileState(point);
 
-        if (tileState.state !== "default") {
-            console.warn("Tried to open tile not in the default state");
+        if (tileState.state === "flag") {
+            console.warn("Tried to open a flagged tile");
             return;
         };
 
         this.setTileOpen(point, true);
         
-        const tileData = this.tileData.get(point);
+        const tileData = this.getTileData(point);
 
         if (tileData.type === "bomb") {
             this.handleLose();
@@ -358,26 +1119,24 @@ export class MinesweeperBoard {
      * @param point - The point of the tile whose neighbors to open.
      */
     private openNeighbors(point: Point) {
-        const tileState = this.tileState.get(point);
+        const tileState = this.getTileState(point);
 
         if (!tileState.isOpen) {
             console.warn("Tried to open neighbors of a closed tile");
             return;
         }
 
-        const tileData = this.tileData.get(point);
+        const tileData = this.getTileData(point);
 
         assert(
             tileData.type === "empty",
             "Bomb tile can't be open, while the game is still running and you can click stuff",
         );
 
-        const neighbors = Array.from(eightWayNeighbors(point)).filter(neighborPoint => {
-            return this.tileData.isInBounds(neighborPoint);
-        });
+        const neighbors = this.neighbors(point);
 
         const flagNeighbors = neighbors.filter(neighborPoint => {
-            const neighborTileState = this.tileState.get(neighborPoint);
+            const neighborTileState = this.getTileState(neighborPoint);
             return !neighborTileState.isOpen && neighborTileState.state === "flag";
         });
 
@@ -385,7 +1144,7 @@ export class MinesweeperBoard {
         if (flagNeighbors.length !== tileData.bombNeighbors) return;
 
         const neighborsToOpen = neighbors.filter(neighborPoint => {
-            const neighborTileState = this.tileState.get(neighborPoint);
+            const neighborTileState = this.getTileState(neighborPoint);
             return !neighborTileState.isOpen && neighborTileState.state !== "flag";
         });
 
@@ -395,7 +1154,7 @@ export class MinesweeperBoard {
 
         // Separate loop, because we want to open all tiles first, before checking if player lost.
         for (const neighborPoint of neighborsToOpen) {
-            const neighborTileData = this.tileData.get(neighborPoint);
+            const neighborTileData = this.getTileData(neighborPoint);
 
             if (neighborTileData.type === "bomb") {
                 this.handleLose();
@@ -410,18 +1169,17 @@ export class MinesweeperBoard {
      * Called when the player loses the game to update the board and board state.
      */
     private handleLose() {
-        for (const point of this.tileData.points()) {
-            const tileData = this.tileData.get(point);
-            const tileState = this.tileState.get(point);
+        this.tiles.forEachPoint((x, y, index) => {
+            const tile = this.tiles.getAt(index);
+            const isFlag = unpackTileState(tile).state === "flag";
 
-            const isUnflaggedBomb = tileData.type === "bomb" && tileState.state === "default";
-            const isIncorrectFlag = tileData.type === "empty" && tileState.state === "flag";
+            const isUnflaggedBomb = isPackedBomb(tile) && !isFlag;
+            const isIncorrectFlag = !isPackedBomb(tile) && isFlag;
 
-            if (!isUnflaggedBomb && !isIncorrectFlag) continue;
+            if (!isUnflaggedBomb && !isIncorrectFlag) return;
 
-            tileState.isOpen = true;
-            this.tileChangedSignal.emit(point);
-        }
+            this.updateTileState({ x, y }, { isOpen: true });
+        });
 
         this.boardState = "lost";
     }
@@ -431,6 +1189,9 @@ export class MinesweeperBoard {
      */
     public clearSignals() {
         this.tileChangedSignal.clear();
+        this.tilesChangedSignal.clear();
         this.boardStateChangedSignal.clear();
+        this.flagCountChangedSignal.clear();
+        this.actionSignal.clear();
     }
 }
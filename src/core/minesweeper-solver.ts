@@ -0,0 +1,472 @@
+import { Point } from "../lib/grid";
+import { MinesweeperBoard } from "./minesweeper-board";
+
+/**
+ * Tiles whose content follows from the open numbers and flags.
+ */
+export type Deductions = {
+    readonly safe: Point[];
+    readonly mines: Point[];
+};
+
+export type SolverOptions = {
+    /**
+     * Treat flagged tiles as bombs. Turn it off when the flags were placed by the player and can be wrong:
+     * the flagged tiles are then treated as closed. Defaults to `true`.
+     */
+    readonly trustFlags?: boolean;
+
+    /**
+     * Run every rule and return everything they find.
+     * Otherwise the rules run from the cheapest to the most expensive, and the first rule that finds anything wins.
+     * Defaults to `false`.
+     */
+    readonly exhaustive?: boolean;
+
+    /**
+     * Time from `performance.now()` when the solver stops running rules and returns what it found so far.
+     * Defaults to no limit.
+     */
+    readonly deadline?: number;
+};
+
+/**
+ * Represents what an open number says about its closed neighbors:
+ * exactly `mines` of the `tiles` are bombs.
+ */
+export type Constraint = {
+    /**
+     * Indices of closed tiles that aren't known to be bombs.
+     */
+    readonly tiles: Set<number>;
+    readonly mines: number;
+};
+
+/**
+ * Result of enumerating every arrangement of bombs in a group of tiles that satisfies the constraints.
+ * Arrangements are grouped by the number of bombs they contain, because a group with more bombs
+ * leaves fewer bombs for the rest of the board.
+ */
+export type FrontierGroup = {
+    /**
+     * Indices of the tiles in the group.
+     */
+    readonly tiles: number[];
+
+    /**
+     * Key is the number of bombs in the arrangement.
+     */
+    readonly arrangements: Map<number, FrontierArrangements>;
+};
+
+export type FrontierArrangements = {
+    /**
+     * Number of valid arrangements with this number of bombs.
+     */
+    count: number;
+
+    /**
+     * For each tile of the group (same order as {@link FrontierGroup.tiles}),
+     * in how many of those arrangements the tile is a bomb.
+     */
+    readonly tileMineCounts: number[];
+};
+
+/**
+ * Stop enumerating a group after this many steps. Huge groups are left to the cheaper rules.
+ */
+const MAX_ENUMERATION_STEPS = 1_000_000;
+
+/**
+ * Checks if a tile shows a number to the player.
+ * Bombs and wrong flags revealed when the game is lost don't count, so a lost game can be analyzed
+ * as it was right before the losing click.
+ */
+function isRevealedNumber(board: MinesweeperBoard, point: Point): boolean {
+    const tileState = board.getTileState(point);
+    return tileState.isOpen && tileState.state !== "flag" && board.getTileData(point).type === "empty";
+}
+
+/**
+ * Checks if a tile is treated as a known bomb.
+ */
+export function isKnownMine(board: MinesweeperBoard, point: Point, trustFlags: boolean): boolean {
+    return trustFlags && !isRevealedNumber(board, point) && board.getTileState(point).state === "flag";
+}
+
+/**
+ * Checks if a tile is hidden from the player: closed, flagged, or revealed only because the game was lost.
+ */
+export function isHidden(board: MinesweeperBoard, point: Point): boolean {
+    return !isRevealedNumber(board, point);
+}
+
+/**
+ * Builds a constraint for every open number that still has unknown neighbors.
+ * Only the player-visible state is used: open numbers and, if trusted, flags.
+ * @param board - The board to analyze.
+ * @param trustFlags - Treat flagged tiles as bombs.
+ * @returns The constraints.
+ */
+export function getConstraints(board: MinesweeperBoard, trustFlags: boolean = true): Constraint[] {
+    const constraints: Constraint[] = [];
+
+    for (const point of board.points()) {
+        const constraint = getConstraint(board, point, trustFlags);
+
+        if (constraint !== null) constraints.push(constraint);
+    }
+
+    return constraints;
+}
+
+/**
+ * Builds the constraint of a single tile.
+ * @returns The constraint, or `null` if the tile isn't an open number with unknown neighbors.
+ */
+function getConstraint(board: MinesweeperBoard, point: Point, trustFlags: boolean): Constraint | null {
+    if (!isRevealedNumber(board, point)) return null;
+
+    const tileData = board.getTileData(point);
+
+    if (tileData.type !== "empty" || tileData.bombNeighbors === 0) return null;
+
+    const tiles = new Set<number>();
+    let knownMines = 0;
+
+    for (const neighbor of board.neighbors(point)) {
+        if (isRevealedNumber(board, neighbor)) continue;
+
+        if (isKnownMine(board, neighbor, trustFlags)) {
+            knownMines++;
+        } else {
+            tiles.add(neighbor.x + board.width * neighbor.y);
+        }
+    }
+
+    if (tiles.size === 0) return null;
+
+    return { tiles, mines: tileData.bombNeighbors - knownMines };
+}
+
+function isSubset(subset: Set<number>, set: Set<number>): boolean {
+    if (subset.size > set.size) return false;
+
+    for (const value of subset) {
+        if (!set.has(value)) return false;
+    }
+
+    return true;
+}
+
+/**
+ * Collects tiles proven safe or mined.
+ */
+class DeductionSet {
+    readonly safe = new Set<number>();
+    readonly mines = new Set<number>();
+
+    public get isEmpty(): boolean {
+        return this.safe.size === 0 && this.mines.size === 0;
+    }
+
+    public add(tiles: Iterable<number>, isMine: boolean) {
+        for (const tile of tiles) {
+            (isMine ? this.mines : this.safe).add(tile);
+        }
+    }
+}
+
+/**
+ * A number that already touches all its bombs makes its other neighbors safe,
+ * and a number with as many closed neighbors as missing bombs makes them all bombs.
+ */
+function applySingleTileRule(constraints: Constraint[], deductions: DeductionSet) {
+    for (const { tiles, mines } of constraints) {
+        if (mines === 0) deductions.add(tiles, false);
+        if (mines === tiles.size) deductions.add(tiles, true);
+    }
+}
+
+/**
+ * If the closed neighbors of one number are a subset of the closed neighbors of another,
+ * the difference contains exactly the difference of their bombs.
+ */
+function applySubsetRule(constraints: Constraint[], deductions: DeductionSet) {
+    // Only constraints that share a tile can be subsets of each other.
+    const constraintsByTile = getConstraintsByTile(constraints);
+
+    for (const subset of constraints) {
+        const [firstTile] = subset.tiles;
+
+        for (const superset of constraintsByTile.get(firstTile) ?? []) {
+            if (superset === subset || !isSubset(subset.tiles, superset.tiles)) continue;
+
+            const difference = Array.from(superset.tiles).filter(tile => !subset.tiles.has(tile));
+            const differenceMines = superset.mines - subset.mines;
+
+            if (differenceMines === 0) deductions.add(difference, false);
+            if (differenceMines === difference.length) deductions.add(difference, true);
+        }
+    }
+}
+
+/**
+ * A tile that is safe in every valid arrangement of its group is safe,
+ * and a tile that is a bomb in every valid arrangement is a bomb.
+ */
+function applyEnumerationRule(constraints: Constraint[], deductions: DeductionSet) {
+    for (const group of enumerateFrontierGroups(constraints)) {
+        const arrangements = Array.from(group.arrangements.values());
+
+        const total = arrangements.reduce((sum, { count }) => sum + count, 0);
+
+        // There's no valid arrangement, so the flags are wrong. Nothing can be proven.
+        if (total === 0) continue;
+
+        for (const [tileIndex, tile] of group.tiles.entries()) {
+            const mineCount = arrangements.reduce((sum, { tileMineCounts }) => sum + tileMineCounts[tileIndex], 0);
+
+            if (mineCount === 0) deductions.add([tile], false);
+            if (mineCount === total) deductions.add([tile], true);
+        }
+    }
+}
+
+function getConstraintsByTile(constraints: Constraint[]): Map<number, Constraint[]> {
+    const constraintsByTile = new Map<number, Constraint[]>();
+
+    for (const constraint of constraints) {
+        for (const tile of constraint.tiles) {
+            const tileConstraints = constraintsByTile.get(tile) ?? [];
+            tileConstraints.push(constraint);
+            constraintsByTile.set(tile, tileConstraints);
+        }
+    }
+
+    return constraintsByTile;
+}
+
+/**
+ * Splits the frontier (closed tiles next to open numbers) into groups of tiles that are linked by shared numbers,
+ * and enumerates every arrangement of bombs in each group that satisfies all numbers.
+ * Groups that take too long to enumerate are skipped.
+ * @param constraints - Constraints from {@link getConstraints}.
+ * @returns The enumerated groups.
+ */
+export function enumerateFrontierGroups(constraints: Constraint[]): FrontierGroup[] {
+    const constraintsByTile = getConstraintsByTile(constraints);
+
+    const visited = new Set<number>();
+    const groups: FrontierGroup[] = [];
+
+    for (const startTile of constraintsByTile.keys()) {
+        if (visited.has(startTile)) continue;
+
+        // Breadth-first order, so the constraints are complete early and prune the search.
+        const tiles: number[] = [startTile];
+        visited.add(startTile);
+
+        for (let i = 0; i < tiles.length; i++) {
+            for (const constraint of constraintsByTile.get(tiles[i]) ?? []) {
+                for (const tile of constraint.tiles) {
+                    if (visited.has(tile)) continue;
+                    visited.add(tile);
+                    tiles.push(tile);
+                }
+            }
+        }
+
+        const group = enumerateGroup(tiles, constraintsByTile);
+
+        if (group !== null) groups.push(group);
+    }
+
+    return groups;
+}
+
+/**
+ * Enumerates the valid arrangements of a group with backtracking.
+ * @returns The group, or `null` if it has too many arrangements to enumerate.
+ */
+function enumerateGroup(tiles: number[], constraintsByTile: Map<number, Constraint[]>): FrontierGroup | null {
+    const groupConstraints = Array.from(new Set(tiles.flatMap(tile => constraintsByTile.get(tile) ?? [])));
+
+    // Bombs placed so far and tiles not assigned yet, for every constraint.
+    const placedMines = new Map(groupConstraints.map(constraint => [constraint, 0]));
+    const unassigned = new Map(groupConstraints.map(constraint => [constraint, constraint.tiles.size]));
+
+    const isMine: boolean[] = new Array(tiles.length).fill(false);
+    const arrangements = new Map<number, FrontierArrangements>();
+
+    let steps = 0;
+
+    const canAssign = (tile: number, mine: boolean) => {
+        for (const constraint of constraintsByTile.get(tile) ?? []) {
+            const mines = placedMines.get(constraint)! + (mine ? 1 : 0);
+            const left = unassigned.get(constraint)! - 1;
+
+            if (mines > constraint.mines || mines + left < constraint.mines) return false;
+        }
+        return true;
+    };
+
+    const assign = (tile: number, mine: boolean, direction: 1 | -1) => {
+        for (const constraint of constraintsByTile.get(tile) ?? []) {
+            if (mine) placedMines.set(constraint, placedMines.get(constraint)! + direction);
+            unassigned.set(constraint, unassigned.get(constraint)! - direction);
+        }
+    };
+
+    const search = (index: number, mineCount: number): boolean => {
+        if (++steps > MAX_ENUMERATION_STEPS) return false;
+
+        if (index === tiles.length) {
+            let entry = arrangements.get(mineCount);
+
+            if (entry === undefined) {
+                entry = { count: 0, tileMineCounts: new Array(tiles.length).fill(0) };
+                arrangements.set(mineCount, entry);
+            }
+
+            entry.count++;
+
+            for (let i = 0; i < tiles.length; i++) {
+                if (isMine[i]) entry.tileMineCounts[i]++;
+            }
+
+            return true;
+        }
+
+        for (const mine of [false, true]) {
+            if (!canAssign(tiles[index], mine)) continue;
+
+            isMine[index] = mine;
+            assign(tiles[index], mine, 1);
+
+            const isCompleted = search(index + 1, mineCount + (mine ? 1 : 0));
+
+            assign(tiles[index], mine, -1);
+            isMine[index] = false;
+
+            if (!isCompleted) return false;
+        }
+
+        return true;
+    };
+
+    if (!search(0, 0)) return null;
+
+    return { tiles, arrangements };
+}
+
+/**
+ * Finds the tiles that can be proven safe or mined from the player-visible state.
+ *
+ * Applies three rules, from the cheapest to the most expensive:
+ * - Single tile: compares a number with its closed neighbors.
+ * - Subset: compares pairs of numbers whose closed neighbors overlap.
+ * - Enumeration: tries every arrangement of bombs in each group of the frontier.
+ *
+ * @param board - The board to analyze. Only the open tiles and flags are used.
+ * @param options - Solver options.
+ * @returns The safe tiles and the bombs that aren't known yet.
+ */
+export function findDeductions(board: MinesweeperBoard, options: SolverOptions = {}): Deductions {
+    return deduce(board, getConstraints(board, options.trustFlags ?? true), options);
+}
+
+/**
+ * Applies the rules of {@link findDeductions} to constraints that are already built.
+ */
+function deduce(board: MinesweeperBoard, constraints: Constraint[], options: SolverOptions): Deductions {
+    const { exhaustive = false, deadline = Infinity } = options;
+
+    const deductions = new DeductionSet();
+
+    const rules = [applySingleTileRule, applySubsetRule, applyEnumerationRule];
+
+    for (const rule of rules) {
+        if (performance.now() >= deadline) break;
+
+        rule(constraints, deductions);
+
+        if (!exhaustive && !deductions.isEmpty) break;
+    }
+
+    const toPoint = (index: number): Point => ({ x: index % board.width, y: Math.floor(index / board.width) });
+
+    return {
+        safe: Array.from(deductions.safe, toPoint),
+        mines: Array.from(deductions.mines, toPoint),
+    };
+}
+
+/**
+ * Plays a board using only logical deductions, without guessing.
+ * Bombs it finds are flagged, safe tiles are opened.
+ *
+ * Only the constraints of the numbers around the changed tiles are rebuilt after every move,
+ * instead of scanning the whole board.
+ *
+ * @param board - The board to play. It's modified.
+ * @param firstClick - The first tile to open.
+ * @param deadline - Time from `performance.now()` when the solver gives up. Defaults to no limit.
+ * @returns `true` if the board was won without guessing, `false` if the solver got stuck, lost or ran out of time.
+ */
+export function solveBoard(board: MinesweeperBoard, firstClick: Point, deadline: number = Infinity): boolean {
+    // Constraints by the index of their number.
+    const constraints = new Map<number, Constraint>();
+
+    // Numbers whose constraint has to be rebuilt: the changed tiles and their neighbors.
+    const dirtyTiles = new Set<number>();
+
+    const onTilesChanged = (points: readonly Point[]) => {
+        for (const point of points) {
+            dirtyTiles.add(point.x + board.width * point.y);
+
+            for (const neighbor of board.neighbors(point)) {
+                dirtyTiles.add(neighbor.x + board.width * neighbor.y);
+            }
+        }
+    };
+
+    board.tilesChangedSignal.connect(onTilesChanged);
+
+    try {
+        board.clickTile(firstClick);
+
+        while (board.boardState === "active") {
+            if (performance.now() >= deadline) return false;
+
+            for (const index of dirtyTiles) {
+                const constraint = getConstraint(board, { x: index % board.width, y: Math.floor(index / board.width) }, true);
+
+                if (constraint === null) {
+                    constraints.delete(index);
+                } else {
+                    constraints.set(index, constraint);
+                }
+            }
+
+            dirtyTiles.clear();
+
+            const { safe, mines } = deduce(board, Array.from(constraints.values()), { deadline });
+
+            if (safe.length === 0 && mines.length === 0) return false;
+
+            for (const point of mines) {
+                board.changeTileState(point);
+            }
+
+            for (const point of safe) {
+                if (board.getTileState(point).isOpen) continue;
+                board.clickTile(point);
+            }
+        }
+
+        return board.boardState === "won";
+    } finally {
+        board.tilesChangedSignal.disconnect(onTilesChanged);
+    }
+}
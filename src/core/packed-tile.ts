@@ -0,0 +1,116 @@
+import { TileData, TileState } from "./minesweeper-board";
+
+/*
+ * A tile is packed into a byte, so a board is a single `Uint8Array`:
+ *
+ * bit     7 6   5       4    3 2 1 0
+ *         state clicked open data
+ *
+ * - data: number of bomb neighbors, or 15 for a bomb
+ * - open: the tile is open
+ * - clicked: the tile was opened by a click, not by the area around it
+ * - state: 0 for default, 1 for flag, 2 for question
+ */
+
+const DATA_MASK = 0b0000_1111;
+const BOMB_DATA = 0b0000_1111;
+const OPEN_BIT = 0b0001_0000;
+const CLICKED_BIT = 0b0010_0000;
+const STATE_SHIFT = 6;
+
+/**
+ * Bits of the mutable state of a tile, the open, clicked and state bits.
+ */
+const STATE_BITS_MASK = 0b1111_0000;
+
+const STATES = ["default", "flag", "question"] as const;
+
+const STATE_VALUES: Record<TileState["state"], number> = {
+    default: 0,
+    flag: 1,
+    question: 2,
+};
+
+const BOMB_TILE: TileData = {
+    type: "bomb",
+};
+
+/**
+ * Every kind of tile data, by its bits. Unpacking a tile returns one of them instead of allocating.
+ */
+const TILE_DATA: readonly TileData[] = Array.from({ length: BOMB_DATA + 1 }, (_, data) => {
+    return data === BOMB_DATA ? BOMB_TILE : { type: "empty", bombNeighbors: data };
+});
+
+/**
+ * Every tile state, by its bits shifted to the right, frozen because they're shared.
+ * The unused fourth state value maps to `undefined`.
+ */
+const TILE_STATES: readonly (Readonly<TileState> | undefined)[] = Array.from({ length: (STATE_BITS_MASK >> 4) + 1 }, (_, bits) => {
+    const state = STATES[bits >> (STATE_SHIFT - 4)];
+
+    if (state === undefined) return undefined;
+
+    return Object.freeze({
+        state,
+        isOpen: (bits & (OPEN_BIT >> 4)) !== 0,
+        wasClicked: (bits & (CLICKED_BIT >> 4)) !== 0,
+    });
+});
+
+export function isPackedBomb(tile: number): boolean {
+    return (tile & DATA_MASK) === BOMB_DATA;
+}
+
+export function isPackedOpen(tile: number): boolean {
+    return (tile & OPEN_BIT) !== 0;
+}
+
+export function isPackedFlag(tile: number): boolean {
+    return tile >> STATE_SHIFT === STATE_VALUES.flag;
+}
+
+/**
+ * @returns The number of bomb neighbors of an empty tile. Meaningless for a bomb.
+ */
+export function getPackedBombNeighbors(tile: number): number {
+    return tile & DATA_MASK;
+}
+
+/**
+ * Replaces the data bits of a tile, keeping its state.
+ * @param bombNeighbors - Number of bomb neighbors, from 0 to 14. Ignored for a bomb.
+ */
+export function packTileData(tile: number, isBomb: boolean, bombNeighbors: number): number {
+    return (tile & STATE_BITS_MASK) | (isBomb ? BOMB_DATA : bombNeighbors);
+}
+
+/**
+ * Replaces the state bits of a tile, keeping its data.
+ */
+export function packTileState(tile: number, tileState: Readonly<TileState>): number {
+    return (tile & DATA_MASK)
+        | (tileState.isOpen ? OPEN_BIT : 0)
+        | (tileState.wasClicked ? CLICKED_BIT : 0)
+        | (STATE_VALUES[tileState.state] << STATE_SHIFT);
+}
+
+/**
+ * @returns The data of a tile. The object is shared between tiles.
+ */
+export function unpackTileData(tile: number): TileData {
+    return TILE_DATA[tile & DATA_MASK];
+}
+
+/**
+ * @returns The state of a tile. The object is shared between tiles and frozen.
+ */
+export function unpackTileState(tile: number): Readonly<TileState> {
+    const tileState = TILE_STATES[(tile & STATE_BITS_MASK) >> 4];
+
+    if (tileState === undefined) {
+        throw new Error(`Invalid state bits of a tile: ${tile.toString(2)}`);
+    }
+
+    return tileState;
+}
@@ -0,0 +1,149 @@
+import { Replay, applyBoardAction } from "./replay";
+import { MinesweeperBoard } from "./minesweeper-board";
+import { TOPOLOGIES } from "./topology";
+import { Signal } from "../lib/signal";
+import { clamp } from "../utils/clamp";
+
+export type ReplaySpeed = 1 | 2 | 4;
+
+/**
+ * Plays a replay back on a fresh board.
+ * It doesn't have its own clock: call {@link ReplayPlayer.advance} every frame.
+ */
+export class ReplayPlayer {
+
+    private readonly replay: Replay;
+
+    private _board: MinesweeperBoard;
+
+    /**
+     * Index of the next action to apply to the board.
+     */
+    private nextActionIndex: number = 0;
+
+    private _timeMS: number = 0;
+
+    private _isPlaying: boolean = false;
+
+    public speed: ReplaySpeed = 1;
+
+    /**
+     * This signal is emitted when the player replaces the board with a fresh one,
+     * which happens when you seek backwards.
+     */
+    readonly boardChangedSignal: Signal<MinesweeperBoard> = new Signal();
+
+    /**
+     * This signal is emitted when the playback time changes.
+     */
+    readonly timeChangedSignal: Signal<number> = new Signal();
+
+    /**
+     * The board the replay is played on.
+     */
+    public get board(): MinesweeperBoard {
+        return this._board;
+    }
+
+    /**
+     * Current playback time in milliseconds.
+     */
+    public get timeMS(): number {
+        return this._timeMS;
+    }
+
+    /**
+     * Time of the last action in milliseconds.
+     */
+    public get durationMS(): number {
+        return this.replay.actions.at(-1)?.timeMS ?? 0;
+    }
+
+    public get isPlaying(): boolean {
+        return this._isPlaying;
+    }
+
+    private createBoard(): MinesweeperBoard {
+        const { width, height, bombs, marks, topology } = this.replay;
+        return new MinesweeperBoard(width, height, bombs, { marks, topology: TOPOLOGIES[topology] });
+    }
+
+    /**
+     * Starts or resumes the playback. Starts from the beginning if the replay has ended.
+     */
+    public play() {
+        if (this._timeMS >= this.durationMS) {
+            this.seek(0);
+        }
+
+        this._isPlaying = true;
+    }
+
+    /**
+     * Pauses the playback.
+     */
+    public pause() {
+        this._isPlaying = false;
+    }
+
+    /**
+     * Moves the playback to a point in time.
+     * All actions up to this time are applied to the board.
+     * @param timeMS - Time in milliseconds. It's clamped to the duration of the replay.
+     */
+    public seek(timeMS: number) {
+        timeMS = clamp(timeMS, 0, this.durationMS);
+
+        // Actions can't be reverted one by one, so replay everything from the start on a fresh board.
+        if (timeMS < this._timeMS) {
+            this.board.clearSignals();
+            this._board = this.createBoard();
+            this.nextActionIndex = 0;
+            this.boardChangedSignal.emit(this._board);
+        }
+
+        const { actions } = this.replay;
+
+        while (this.nextActionIndex < actions.length && actions[this.nextActionIndex].timeMS <= timeMS) {
+            applyBoardAction(this._board, actions[this.nextActionIndex].action);
+            this.nextActionIndex++;
+        }
+
+        this._timeMS = timeMS;
+        this.timeChangedSignal.emit(this._timeMS);
+    }
+
+    /**
+     * Advances the playback if it's playing. Pauses when the replay ends.
+     * @param deltaMS - Real time passed since the last call in milliseconds.
+     */
+    public advance(deltaMS: number) {
+        if (!this._isPlaying) return;
+
+        this.seek(this._timeMS + deltaMS * this.speed);
+
+        if (this._timeMS >= this.durationMS) {
+            this.pause();
+        }
+    }
+
+    /**
+     * Disconnect all callbacks connected to signals, including the signals of the board.
+     */
+    public clearSignals() {
+        this.board.clearSignals();
+        this.boardChangedSignal.clear();
+        this.timeChangedSignal.clear();
+    }
+
+    /**
+     * @param replay - The replay to play.
+     */
+    constructor(replay: Replay) {
+        this.replay = replay;
+        this._board = this.createBoard();
+
+        // Apply the actions that happened at the very start.
+        this.seek(0);
+    }
+}
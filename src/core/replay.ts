@@ -0,0 +1,244 @@
+import { BoardAction, MinesweeperBoard } from "./minesweeper-board";
+import { assert } from "../utils/assert";
+import { decodeBase64, encodeBase64 } from "../utils/base64";
+import { TOPOLOGIES, TopologyName } from "./topology";
+
+/**
+ * Represents an action of the player with the time it happened at.
+ */
+export type ReplayAction = {
+    /**
+     * Time since the start of the game in milliseconds.
+     */
+    readonly timeMS: number;
+    readonly action: BoardAction;
+};
+
+/**
+ * Represents a recorded game. Contains everything needed to play it back on a fresh board.
+ */
+export type Replay = {
+    readonly width: number;
+    readonly height: number;
+    readonly marks: boolean;
+    readonly topology: TopologyName;
+
+    /**
+     * Bomb positions in row-major order (true for bomb, false for empty).
+     */
+    readonly bombs: boolean[];
+
+    /**
+     * Actions sorted by time.
+     */
+    readonly actions: ReplayAction[];
+};
+
+/**
+ * Increment when the encoded format changes, so old replays are rejected instead of played incorrectly.
+ */
+const REPLAY_FORMAT_VERSION = 2;
+
+/**
+ * Action types in the order they're encoded in. The index of a type is its code.
+ */
+const ACTION_TYPES = ["open", "chord", "flag", "mark", "unflag", "undo", "redo"] as const satisfies BoardAction["type"][];
+
+/**
+ * Records the actions of the player on a board.
+ */
+export class ReplayRecorder {
+
+    private readonly board: MinesweeperBoard;
+
+    private readonly getTimeMS: () => number;
+
+    private readonly _actions: ReplayAction[];
+
+    private readonly onAction = (action: BoardAction) => {
+        this._actions.push({ timeMS: this.getTimeMS(), action });
+    };
+
+    /**
+     * Actions recorded so far.
+     */
+    public get actions(): readonly ReplayAction[] {
+        return this._actions;
+    }
+
+    /**
+     * Creates the replay of the game recorded so far.
+     * @returns The replay, or `null` if the bombs aren't placed yet.
+     */
+    public createReplay(): Replay | null {
+        if (!this.board.areBombsPlaced) return null;
+
+        return {
+            width: this.board.width,
+            height: this.board.height,
+            marks: this.board.marksEnabled,
+            topology: this.board.topology.name,
+            bombs: this.board.getBombs(),
+            actions: [...this._actions],
+        };
+    }
+
+    /**
+     * Stops recording.
+     */
+    public stop() {
+        this.board.actionSignal.disconnect(this.onAction);
+    }
+
+    /**
+     * Starts recording the actions of the player on a board.
+     * @param board - The board to record.
+     * @param getTimeMS - Returns the time since the start of the game in milliseconds.
+     * @param actions - Actions recorded earlier, when a saved game is resumed.
+     */
+    constructor(board: MinesweeperBoard, getTimeMS: () => number, actions: readonly ReplayAction[] = []) {
+        this.board = board;
+        this.getTimeMS = getTimeMS;
+        this._actions = [...actions];
+
+        this.board.actionSignal.connect(this.onAction);
+    }
+}
+
+/**
+ * Performs a recorded action on a board.
+ * @param board - The board to perform the action on.
+ * @param action - The action to perform.
+ */
+export function applyBoardAction(board: MinesweeperBoard, action: BoardAction) {
+    switch (action.type) {
+        case "open":
+        case "chord":
+            board.clickTile(action.point);
+            break;
+        case "flag":
+        case "mark":
+        case "unflag":
+            board.changeTileState(action.point);
+            break;
+        case "undo":
+            board.undo();
+            break;
+        case "redo":
+            board.redo();
+            break;
+    }
+}
+
+/**
+ * Encodes an array of booleans as a bit set in a base64 string.
+ */
+function encodeBits(bits: boolean[]): string {
+    const bytes = new Uint8Array(Math.ceil(bits.length / 8));
+
+    for (const [index, bit] of bits.entries()) {
+        if (bit) bytes[index >> 3] |= 1 << (index & 7);
+    }
+
+    return encodeBase64(bytes);
+}
+
+/**
+ * Decodes a bit set encoded with {@link encodeBits}.
+ */
+function decodeBits(encoded: string, length: number): boolean[] {
+    const bytes = decodeBase64(encoded);
+
+    assert(bytes.length === Math.ceil(length / 8), "Bit set has a wrong length");
+
+    return Array.from({ length }, (_, index) => (bytes[index >> 3] & (1 << (index & 7))) !== 0);
+}
+
+/**
+ * Encodes a replay into a compact URL-safe string.
+ *
+ * Actions are stored as a flat array of numbers: time, type code and, for actions with a point, tile index.
+ *
+ * @param replay - The replay to encode.
+ * @returns The encoded replay.
+ */
+export function encodeReplay(replay: Replay): string {
+    const actions: number[] = [];
+
+    for (const { timeMS, action } of replay.actions) {
+        actions.push(Math.round(timeMS), ACTION_TYPES.indexOf(action.type));
+
+        if ("point" in action) {
+            actions.push(action.point.x + replay.width * action.point.y);
+        }
+    }
+
+    const json = JSON.stringify([
+        REPLAY_FORMAT_VERSION,
+        replay.width,
+        replay.height,
+        replay.marks ? 1 : 0,
+        replay.topology,
+        encodeBits(replay.bombs),
+        actions,
+    ]);
+
+    return btoa(json).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+/**
+ * Decodes a replay encoded with {@link encodeReplay}.
+ * @param encoded - The encoded replay.
+ * @returns The replay, or `null` if the string is not a valid replay.
+ */
+export function decodeReplay(encoded: string): Replay | null {
+    try {
+        const json = atob(encoded.trim().replace(/-/g, "+").replace(/_/g, "/"));
+
+        const [version, width, height, marks, topology, bombs, encodedActions] = JSON.parse(json);
+
+        if (version !== REPLAY_FORMAT_VERSION) {
+            console.error(`Unsupported replay version: ${version}`);
+            return null;
+        }
+
+        assert(Number.isInteger(width) && width > 0, "Invalid replay width");
+        assert(Number.isInteger(height) && height > 0, "Invalid replay height");
+        assert(topology in TOPOLOGIES, "Invalid replay topology");
+        assert(Array.isArray(encodedActions), "Invalid replay actions");
+
+        const actions: ReplayAction[] = [];
+
+        for (let i = 0; i < encodedActions.length;) {
+            const timeMS: number = encodedActions[i++];
+            const type = ACTION_TYPES[encodedActions[i++]];
+
+            assert(type !== undefined, "Invalid replay action type");
+
+            if (type === "undo" || type === "redo") {
+                actions.push({ timeMS, action: { type } });
+                continue;
+            }
+
+            const index: number = encodedActions[i++];
+
+            assert(index >= 0 && index < width * height, "Replay action is out of bounds");
+
+            const point = { x: index % width, y: Math.floor(index / width) };
+
+            actions.push({ timeMS, action: { type, point } });
+        }
+
+        return {
+            width,
+            height,
+            marks: marks === 1,
+            topology,
+            bombs: decodeBits(bombs, width * height),
+            actions,
+        };
+    } catch (error) {
+        console.error("Failed to decode the replay.", error);
+        return null;
+    }
+}
@@ -0,0 +1,110 @@
+import { HEX_DIRECTIONS } from "../lib/grid";
+
+export type TopologyName = "flat" | "torus" | "hex";
+
+/**
+ * Shape of the tiles:
+ * - `"square"`: the rows and the columns line up.
+ * - `"hex"`: pointy-topped hexagons, every odd row is shifted right by half a tile, see `HexPoint`.
+ */
+export type TileShape = "square" | "hex";
+
+/**
+ * How the tiles of a board are connected. The board asks its topology for the neighbors of a tile
+ * to count the bombs around it, to open areas and to chord.
+ */
+export type Topology = {
+    readonly name: TopologyName;
+
+    readonly tileShape: TileShape;
+
+    /**
+     * Most neighbors a tile can have, so the highest number on the board.
+     */
+    readonly maxNeighbors: number;
+
+    /**
+     * Executes a function for every neighbor of a tile. Every neighbor is on the board, and none is visited twice.
+     * It doesn't allocate, because it runs for every tile when the bombs are counted and the areas are opened.
+     * @param x - Column of the tile, on the board.
+     * @param y - Row of the tile, on the board.
+     * @param width - Width of the board.
+     * @param height - Height of the board.
+     * @param action - The function to execute with the coordinates of the neighbor and its index in row-major order.
+     */
+    readonly forEachNeighbor: (
+        x: number,
+        y: number,
+        width: number,
+        height: number,
+        action: (x: number, y: number, index: number) => void,
+    ) => void;
+};
+
+/**
+ * The classic board: tiles on the edges have fewer neighbors.
+ */
+export const FLAT_TOPOLOGY: Topology = {
+    name: "flat",
+    tileShape: "square",
+    maxNeighbors: 8,
+    forEachNeighbor: (x, y, width, height, action) => {
+        for (let neighborX = Math.max(0, x - 1); neighborX <= Math.min(width - 1, x + 1); neighborX++) {
+            for (let neighborY = Math.max(0, y - 1); neighborY <= Math.min(height - 1, y + 1); neighborY++) {
+                if (neighborX === x && neighborY === y) continue;
+                action(neighborX, neighborY, neighborX + neighborY * width);
+            }
+        }
+    },
+};
+
+/**
+ * The edges wrap around: the left column is next to the right one, and the top row is next to the bottom one.
+ * Every tile has eight neighbors, unless the board is less than three tiles wide or high.
+ */
+export const TORUS_TOPOLOGY: Topology = {
+    name: "torus",
+    tileShape: "square",
+    maxNeighbors: 8,
+    forEachNeighbor: (x, y, width, height, action) => {
+        // On a board less than three tiles wide, the column on the right wraps to one already visited,
+        // so only the first `width` offsets are distinct. The same goes for the rows.
+        for (let dx = -1; dx <= 1 && dx + 1 < width; dx++) {
+            const neighborX = (x + dx + width) % width;
+
+            for (let dy = -1; dy <= 1 && dy + 1 < height; dy++) {
+                const neighborY = (y + dy + height) % height;
+
+                if (neighborX === x && neighborY === y) continue;
+                action(neighborX, neighborY, neighborX + neighborY * width);
+            }
+        }
+    },
+};
+
+/**
+ * Hexagonal tiles with six neighbors. The edges don't wrap.
+ */
+export const HEX_TOPOLOGY: Topology = {
+    name: "hex",
+    tileShape: "hex",
+    maxNeighbors: 6,
+    forEachNeighbor: (x, y, width, height, action) => {
+        // Same as `hexNeighbors`, without allocating the points.
+        const q = x - (y - (y & 1)) / 2;
+
+        for (const direction of HEX_DIRECTIONS) {
+            const neighborY = y + direction.r;
+            const neighborX = q + direction.q + (neighborY - (neighborY & 1)) / 2;
+
+            if (neighborX < 0 || neighborY < 0 || neighborX >= width || neighborY >= height) continue;
+            action(neighborX, neighborY, neighborX + neighborY * width);
+        }
+    },
+};
+
+export const TOPOLOGIES: Record<TopologyName, Topology> = {
+    flat: FLAT_TOPOLOGY,
+    torus: TORUS_TOPOLOGY,
+    hex: HEX_TOPOLOGY,
+};
@@ -0,0 +1,150 @@
+import { BoardSettings, getBoardSettingsWithDifficulties, isSameBoardSettings } from "./board-settings";
+
+const HIGH_SCORES_STORAGE_KEY = "minesweeper/high-scores";
+
+/**
+ * Increment when the format of the stored high scores changes, so old ones are discarded instead of read incorrectly.
+ */
+const HIGH_SCORES_VERSION = 1;
+
+/**
+ * Number of the fastest times kept for each board.
+ */
+export const MAX_HIGH_SCORES = 5;
+
+export const DEFAULT_HIGH_SCORE_NAME = "Anonymous";
+
+export type HighScore = {
+    readonly name: string,
+
+    /**
+     * Time of the game in milliseconds.
+     */
+    readonly timeMS: number,
+
+    /**
+     * When the game was won, in milliseconds since the epoch.
+     */
+    readonly date: number,
+}
+
+/**
+ * Fastest times for a board. Boards are kept apart by their width, height, bombs and topology.
+ */
+type BoardHighScores = BoardSettings & {
+    readonly highScores: HighScore[],
+}
+
+type StoredHighScores = {
+    readonly version: number,
+
+    /**
+     * Name entered for the last record, suggested for the next one.
+     */
+    lastName: string,
+
+    readonly boards: BoardHighScores[],
+}
+
+function createEmptyHighScores(): StoredHighScores {
+    return {
+        version: HIGH_SCORES_VERSION,
+        lastName: DEFAULT_HIGH_SCORE_NAME,
+        boards: [],
+    };
+}
+
+function loadHighScores(): StoredHighScores {
+
+    let stored: StoredHighScores;
+
+    try {
+        const json = localStorage.getItem(HIGH_SCORES_STORAGE_KEY);
+
+        if (json === null) return createEmptyHighScores();
+
+        stored = JSON.parse(json);
+    } catch (error) {
+        console.error("Failed to load the high scores.", error);
+        return createEmptyHighScores();
+    }
+
+    if (stored.version !== HIGH_SCORES_VERSION) {
+        console.warn(`Discarding high scores with an unsupported version: ${stored.version}`);
+        return createEmptyHighScores();
+    }
+
+    return stored;
+}
+
+function storeHighScores(stored: StoredHighScores) {
+    try {
+        localStorage.setItem(HIGH_SCORES_STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+        console.error("Failed to save the high scores.", error);
+    }
+}
+
+/**
+ * @returns The fastest times for a board, fastest first.
+ */
+export function getHighScores(settings: BoardSettings): readonly HighScore[] {
+    return loadHighScores().boards.find(board => isSameBoardSettings(board, settings))?.highScores ?? [];
+}
+
+/**
+ * @returns The boards to show in the high score table: the difficulties first, then the custom boards with records.
+ */
+export function getHighScoreBoards(): BoardSettings[] {
+    return getBoardSettingsWithDifficulties(loadHighScores().boards);
+}
+
+/**
+ * Checks if a time gets into the high score table of a board.
+ */
+export function isHighScore(settings: BoardSettings, timeMS: number): boolean {
+    const highScores = getHighScores(settings);
+    return highScores.length < MAX_HIGH_SCORES || timeMS < highScores[highScores.length - 1].timeMS;
+}
+
+/**
+ * Adds a time to the high score table of a board and drops the slowest one if the table is full.
+ * The name is remembered and suggested for the next record.
+ */
+export function addHighScore(settings: BoardSettings, name: string, timeMS: number) {
+
+    const stored = loadHighScores();
+
+    let board = stored.boards.find(board => isSameBoardSettings(board, settings));
+
+    if (board === undefined) {
+        board = {
+            width: settings.width,
+            height: settings.height,
+            bombs: settings.bombs,
+            topology: settings.topology ?? "flat",
+            highScores: [],
+        };
+        stored.boards.push(board);
+    }
+
+    board.highScores.push({ name, timeMS, date: Date.now() });
+    board.highScores.sort((a, b) => a.timeMS - b.timeMS);
+    board.highScores.splice(MAX_HIGH_SCORES);
+
+    stored.lastName = name;
+
+    storeHighScores(stored);
+}
+
+export function getLastHighScoreName(): string {
+    return loadHighScores().lastName;
+}
+
+export function clearHighScores() {
+    try {
+        localStorage.removeItem(HIGH_SCORES_STORAGE_KEY);
+    } catch (error) {
+        console.error("Failed to clear the high scores.", error);
+    }
+}
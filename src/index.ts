@@ -6,10 +6,13 @@ import {
     BaseTexture,
     SCALE_MODES,
 } from "pixi.js";
-import { getUrlParamsBoardSettings } from "./board-settings";
-import { MinesweeperPixi } from "./pixi/minesweeper";
-
-const SCALE = 2;
+import { BoardSettings, getUrlParamsBoardSettings, getUrlParamsChording, getUrlParamsFirstClickPolicy, getUrlParamsFlagModeButton, getUrlParamsLongPressMS, getUrlParamsMarks, getUrlParamsNoGuess, getUrlParamsRanked, getUrlParamsReplay, getUrlParamsSeed, getUrlParamsTopology } from "./board-settings";
+import { MinesweeperWindowPixi } from "./pixi/minesweeper-window";
+import { SavedGame, clearSavedGame, loadSavedGame } from "./save-game";
+import { openReplay, readReplayFile } from "./replay-file";
+import { loadZoom } from "./zoom";
+import { loadTheme } from "./theme";
+import { TOPOLOGIES, TopologyName } from "./core/topology";
 
 export const WINDOW_PADDING_X_PX: number = 9 
 export const WINDOW_PADDING_Y_PX: number = 8
@@ -25,37 +28,145 @@ export const HEADER_PADDING_PX: number = 6
 export const NUMBER_DISPLAY_PADDING_PX: number = 1
 export const NUMBER_DISPLAY_CELL_WIDTH_PX: number = 13
 
-const boardSettings = getUrlParamsBoardSettings();
+export const MENU_BAR_HEIGHT_PX: number = 12
+
+export const FLAG_MODE_BUTTON_SIZE_PX: number = 12
+
+const replay = getUrlParamsReplay();
 
-const windowWidth = (WINDOW_PADDING_X_PX * 2) + (boardSettings.width * TILE_SIZE_PX) + (BOARD_PADDING_PX * 2);
-const windowHeight = (WINDOW_PADDING_Y_PX * 2) + (boardSettings.height * TILE_SIZE_PX) + (BOARD_PADDING_PX * 2) + HEADER_BOARD_GAP_PX + HEADER_HEIGHT_PX;
+// Don't offer to resume a game when the page is opened to watch a replay.
+const savedGame = replay === null ? getSavedGameToResume() : null;
+
+const boardSettings: BoardSettings = getBoardSettings();
+
+const generateOptions = {
+    firstClickPolicy: getUrlParamsFirstClickPolicy(),
+    seed: getUrlParamsSeed(),
+    marks: getUrlParamsMarks(),
+    noGuess: getUrlParamsNoGuess(),
+    topology: TOPOLOGIES[getTopologyName()],
+};
+
+const isRanked = getUrlParamsRanked();
+
+const inputOptions = {
+    longPressMS: getUrlParamsLongPressMS(),
+    showFlagModeButton: getUrlParamsFlagModeButton(),
+    chordingScheme: getUrlParamsChording(),
+};
 
 const app = new Application<HTMLCanvasElement>({
     backgroundColor: 0x000000,
-    width: windowWidth * SCALE,
-    height: windowHeight * SCALE,
     resolution: window.devicePixelRatio || 1,
     antialias: false,
     autoDensity: true,
 });
 
-app.stage.scale.set(SCALE);
-
 // Allow right click
 app.view.addEventListener('contextmenu', (event) => {
     event.preventDefault();
 });
+
+// Allow middle click chording without the browser starting to autoscroll
+app.view.addEventListener('mousedown', (event) => {
+    if (event.button === 1) event.preventDefault();
+});
+
+// Play replays dropped on the page
+document.addEventListener('dragover', (event) => {
+    event.preventDefault();
+});
+
+document.addEventListener('drop', async (event) => {
+    event.preventDefault();
+
+    const file = event.dataTransfer?.files[0];
+
+    if (file === undefined) return;
+
+    const droppedReplay = await readReplayFile(file);
+
+    if (droppedReplay === null) return;
+
+    openReplay(droppedReplay);
+});
   
 window.onload = async (): Promise<void> => {
     await loadGameAssets();
 
     document.body.appendChild(app.view);    
 
-    const minesweeper = new MinesweeperPixi(boardSettings.width, boardSettings.height, boardSettings.bombs);
+    const minesweeperWindow = new MinesweeperWindowPixi(boardSettings, generateOptions, savedGame, isRanked, inputOptions, loadZoom(), loadTheme());
+
+    // The renderer is sized to the window, which changes with the difficulty and the zoom.
+    const resizeRenderer = () => {
+        const scale = minesweeperWindow.pixelScale;
+
+        app.stage.scale.set(scale);
+        app.renderer.resize(minesweeperWindow.windowWidth * scale, minesweeperWindow.windowHeight * scale);
+    };
+
+    resizeRenderer();
+
+    minesweeperWindow.resizedSignal.connect(resizeRenderer);
+
+    // The "fit" zoom depends on the size of the browser window.
+    window.addEventListener("resize", () => {
+        if (minesweeperWindow.zoom === "fit") resizeRenderer();
+    });
 
-    app.stage.addChild(minesweeper);
+    app.stage.addChild(minesweeperWindow);
+
+    if (replay !== null) {
+        minesweeperWindow.playReplay(replay);
+    }
 };
 
+function getBoardSettings(): BoardSettings {
+    if (replay !== null) {
+        return {
+            width: replay.width,
+            height: replay.height,
+            bombs: replay.bombs.filter(isBomb => isBomb).length,
+        };
+    }
+
+    if (savedGame !== null) {
+        return {
+            width: savedGame.board.width,
+            height: savedGame.board.height,
+            bombs: savedGame.board.bombCount,
+        };
+    }
+
+    return getUrlParamsBoardSettings();
+}
+
+/**
+ * A replay or a saved game is played on the board it was recorded on, like with {@link getBoardSettings}.
+ */
+function getTopologyName(): TopologyName {
+    if (replay !== null) return replay.topology;
+
+    if (savedGame !== null) return savedGame.board.topology;
+
+    return getUrlParamsTopology();
+}
+
+function getSavedGameToResume(): SavedGame | null {
+    const savedGame = loadSavedGame();
+
+    if (savedGame === null) return null;
+
+    if (window.confirm("You have an unfinished game. Do you want to resume it?")) {
+        return savedGame;
+    }
+
+    clearSavedGame();
+
+    return null;
+}
+
 async function loadGameAssets(): Promise<void> {
     BaseTexture.defaultOptions.scaleMode = SCALE_MODES.NEAREST;
 
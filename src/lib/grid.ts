@@ -27,6 +27,104 @@ export function *eightWayNeighbors(point: Point): Generator<Point> {
     }
 }
 
+/**
+ * Represents a tile of a hex grid in axial coordinates.
+ *
+ * Hex grids are stored in a {@link Grid} with "odd-r" offset coordinates: the tiles are pointy-topped,
+ * and every odd row is shifted right by half a tile. A tile at `{ x, y }` of the grid is in row `r = y`.
+ * Axial coordinates make the neighbors the same for every row, which offset coordinates don't.
+ */
+export type HexPoint = {
+    q: number;
+    r: number;
+};
+
+/**
+ * The six directions of a hex grid in axial coordinates, clockwise from the right.
+ */
+export const HEX_DIRECTIONS: readonly Readonly<HexPoint>[] = [
+    { q: 1, r: 0 },
+    { q: 0, r: 1 },
+    { q: -1, r: 1 },
+    { q: -1, r: 0 },
+    { q: 0, r: -1 },
+    { q: 1, r: -1 },
+];
+
+/**
+ * Converts a point of a hex grid from offset coordinates to axial coordinates.
+ */
+export function offsetToHex(point: Point): HexPoint {
+    return { q: point.x - (point.y - (point.y & 1)) / 2, r: point.y };
+}
+
+/**
+ * Converts a point of a hex grid from axial coordinates to offset coordinates.
+ */
+export function hexToOffset(hex: HexPoint): Point {
+    return { x: hex.q + (hex.r - (hex.r & 1)) / 2, y: hex.r };
+}
+
+/**
+ * Rounds fractional axial coordinates to the tile they're in.
+ * Rounding `q` and `r` on their own can pick the wrong tile near the corners,
+ * so the coordinate that rounds furthest is recomputed from the other two, like in cube coordinates.
+ */
+export function roundHex(q: number, r: number): HexPoint {
+    const s = -q - r;
+
+    let roundedQ = Math.round(q);
+    let roundedR = Math.round(r);
+    const roundedS = Math.round(s);
+
+    const diffQ = Math.abs(roundedQ - q);
+    const diffR = Math.abs(roundedR - r);
+    const diffS = Math.abs(roundedS - s);
+
+    if (diffQ > diffR && diffQ > diffS) {
+        roundedQ = -roundedR - roundedS;
+    } else if (diffR > diffS) {
+        roundedR = -roundedQ - roundedS;
+    }
+
+    return { q: roundedQ, r: roundedR };
+}
+
+/**
+ * Finds the tile of a hex grid at a position.
+ *
+ * @param x - Horizontal position from the center of the tile `{ x: 0, y: 0 }`, in widths of a tile.
+ * @param y - Vertical position from the center of the tile `{ x: 0, y: 0 }`, in distances between rows.
+ * @returns The point of the tile in offset coordinates. It can be outside of the grid.
+ */
+export function hexTileAt(x: number, y: number): Point {
+    return hexToOffset(roundHex(x - y / 2, y));
+}
+
+/** A generator over the six neighbors of a point of a hex grid.
+ *  . ▆ ▆ .
+ * . ▆ X ▆ .
+ *  . ▆ ▆ .
+ *
+ * @param point - The point for which you get the neighbors, in offset coordinates.
+ * @returns A generator that yields Point in offset coordinates for every neighbor of a point.
+ */
+export function *hexNeighbors(point: Point): Generator<Point> {
+    const { q, r } = offsetToHex(point);
+
+    for (const direction of HEX_DIRECTIONS) {
+        yield hexToOffset({ q: q + direction.q, r: r + direction.r });
+    }
+}
+
+/**
+ * Storage of a grid: a plain array, or a typed array like `Uint8Array` for grids of small numbers.
+ */
+export type GridStorage<T> = {
+    [index: number]: T;
+    readonly length: number;
+};
+
 /**
  * A 2D grid storing elements in a row-major order.
  * 
@@ -41,17 +139,17 @@ export class Grid<T> {
     readonly height: number;
     readonly size: number;
 
-    private array: T[];
+    private array: GridStorage<T>;
 
     /**
      * Creates a grid with the given dimensions and optional initial data.
      *
      * @param width - The width of the grid.
      * @param height - The height of the grid.
-     * @param array - Optional initial data for the grid. Must match the grid's size.
+     * @param array - Optional initial data for the grid. Must match the grid's size. The grid keeps it instead of copying it.
      * @throws {Error} If the width or height is not greater than zero or if the array length does not match the grid size.
      */
-    constructor(width: number, height: number, array?: T[]) {
+    constructor(width: number, height: number, array?: GridStorage<T>) {
         assert(width > 0, "Width should be greater than zero");
         assert(height > 0, "Height should be greater than zero");
 
@@ -82,6 +180,23 @@ export class Grid<T> {
         }
     }
 
+    /**
+     * Executes a function for every point of the grid in row-major order.
+     * Unlike {@link Grid.points}, it doesn't allocate a point per step, so prefer it in hot loops.
+     *
+     * @param action - The function to execute with the coordinates of the point and its index in row-major order.
+     */
+    public forEachPoint(action: (x: number, y: number, index: number) => void) {
+        let index = 0;
+
+        for (let y = 0; y < this.height; y++) {
+            for (let x = 0; x < this.width; x++) {
+                action(x, y, index);
+                index++;
+            }
+        }
+    }
+
     /**
      * Generates all rows of the grid as arrays.
      *
@@ -89,8 +204,7 @@ export class Grid<T> {
      */
     public *lines(): Generator<T[]> {
         for (let y = 0; y < this.height; y++) {
-            const slice = this.array.slice(y * this.width, ((y + 1) * this.width));
-            yield slice;
+            yield Array.from({ length: this.width }, (_, x) => this.array[x + y * this.width]);
         }   
     }
 
@@ -100,8 +214,8 @@ export class Grid<T> {
      * @param action - The function to execute for each value.
      */
     public forEach(action: (value: T) => void) {
-        for (const point of this.points()) {
-            action(this.get(point));
+        for (let index = 0; index < this.size; index++) {
+            action(this.array[index]);
         }
     }
 
@@ -114,11 +228,10 @@ export class Grid<T> {
      */
     public mapIndexed<R>(transform: (point: Point, value: T) => R): Grid<R> {
 
-        const newArray = Array.from(this.points(), (point, _index) => {
+        const newArray: R[] = new Array(this.size);
 
-            const value = this.get(point);
-
-            return transform(point, value);
+        this.forEachPoint((x, y, index) => {
+            newArray[index] = transform({ x, y }, this.array[index]);
         });
 
         return new Grid(this.width, this.height, newArray);
@@ -173,6 +286,45 @@ export class Grid<T> {
         return value;
     }
 
+    /**
+     * Sets the value at a point.
+     *
+     * @param point - The point to set the value at.
+     * @param value - The new value.
+     * @throws {Error} If the point is out of bounds.
+     */
+    public set(point: Point, value: T) {
+        const index = this.pointToArrayIndex(point);
+
+        if (index === null) {
+            throw new Error(
+                `Tried to set a point on a grid that is out of bounds: ${point.x}, ${point.y}`,
+            );
+        }
+
+        this.array[index] = value;
+    }
+
+    /**
+     * Gets the value at an index in row-major order, e.g. one passed by {@link Grid.forEachPoint}.
+     *
+     * @param index - The index of the value.
+     * @returns The value at the index.
+     */
+    public getAt(index: number): T {
+        return this.array[index];
+    }
+
+    /**
+     * Sets the value at an index in row-major order, e.g. one passed by {@link Grid.forEachPoint}.
+     *
+     * @param index - The index of the value.
+     * @param value - The new value.
+     */
+    public setAt(index: number, value: T) {
+        this.array[index] = value;
+    }
+
     /**
      * Converts a point to its corresponding index in the internal array.
      *
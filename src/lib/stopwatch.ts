@@ -10,9 +10,9 @@ export class Stopwatch {
     private ticker: Ticker;
 
     /**
-     * Elapsed time in milliseconds.
+     * Internal value for elapsed time in milliseconds.
      */
-    private elapsedMS: number = 0.0;
+    private _elapsedMS: number = 0.0;
 
     /**
      * Internal value for elapsed time in seconds.
@@ -24,6 +24,13 @@ export class Stopwatch {
      */
     public secondsUpdate: Signal<number> = new Signal();
 
+    /**
+     * Elapsed time in milliseconds.
+     */
+    public get elapsedMS() {
+        return this._elapsedMS;
+    }
+
     /**
      * Elapsed time in seconds.
      */
@@ -63,16 +70,27 @@ export class Stopwatch {
      */
     public reset() {
         this.ticker.stop();
-        this.elapsedMS = 0.0;
+        this._elapsedMS = 0.0;
         this.seconds = 0;
     }
 
+    /**
+     * Sets the elapsed time without starting or pausing the stopwatch.
+     * Used to restore the time of a saved game.
+     *
+     * @param elapsedMS - The elapsed time in milliseconds.
+     */
+    public setElapsedMS(elapsedMS: number) {
+        this._elapsedMS = elapsedMS;
+        this.seconds = this._elapsedMS / 1000;
+    }
+
     /**
      * Update function called by the ticker.
      */
     private update() {
-        this.elapsedMS += this.ticker.deltaMS;
-        this.seconds = this.elapsedMS / 1000;
+        this._elapsedMS += this.ticker.deltaMS;
+        this.seconds = this._elapsedMS / 1000;
     }
 
     /**
@@ -0,0 +1,106 @@
+import { Container, Text } from "pixi.js";
+import { BoardSettings, getBoardSettingsLabel, isSameBoardSettings } from "../board-settings";
+import { MinesweeperDialogPixi, createDialogButton, createDialogText } from "./minesweeper-dialog";
+
+/**
+ * A dialog that shows a table for one board at a time. Arrows switch between the boards.
+ * Subclasses draw the table of a board into {@link MinesweeperBoardDialogPixi.table}.
+ */
+export abstract class MinesweeperBoardDialogPixi extends MinesweeperDialogPixi {
+
+    private boards: BoardSettings[] = [];
+
+    private boardIndex: number = 0;
+
+    private readonly boardLabel: Text = createDialogText("");
+
+    /**
+     * Width of the table in pixels. The board switcher spans the same width.
+     */
+    protected readonly tableWidth: number;
+
+    protected readonly table: Container = new Container();
+
+    /**
+     * @returns The boards that have a table.
+     */
+    protected abstract getBoards(): BoardSettings[];
+
+    /**
+     * Fills {@link MinesweeperBoardDialogPixi.table} for a board. The table is empty when it's called.
+     */
+    protected abstract drawTable(board: BoardSettings): void;
+
+    protected get currentBoard(): BoardSettings {
+        return this.boards[this.boardIndex];
+    }
+
+    private showBoard(index: number) {
+        this.boardIndex = (index + this.boards.length) % this.boards.length;
+
+        this.boardLabel.text = getBoardSettingsLabel(this.currentBoard);
+        this.boardLabel.x = Math.round((this.tableWidth - this.boardLabel.width) / 2);
+
+        this.table.removeChildren().forEach(child => child.destroy());
+
+        this.drawTable(this.currentBoard);
+    }
+
+    /**
+     * Reloads the boards and their tables, e.g. after the records are reset.
+     * Subclasses call it once from their constructor to show the first board.
+     * @param board - The board to show. The current one by default.
+     */
+    protected refresh(board: BoardSettings = this.currentBoard) {
+        this.boards = this.getBoards();
+
+        let index = this.boards.findIndex(settings => isSameBoardSettings(settings, board));
+
+        // A custom board without records.
+        if (index === -1) {
+            this.boards.push(board);
+            index = this.boards.length - 1;
+        }
+
+        this.showBoard(index);
+    }
+
+    /**
+     * `←` and `→` switch between the boards.
+     */
+    public override handleKeyDown(event: KeyboardEvent): boolean {
+        switch (event.key) {
+            case "ArrowLeft":
+                this.showBoard(this.boardIndex - 1);
+                return true;
+            case "ArrowRight":
+                this.showBoard(this.boardIndex + 1);
+                return true;
+            default:
+                return super.handleKeyDown(event);
+        }
+    }
+
+    /**
+     * @param windowWidth - Width of the game window in pixels.
+     * @param windowHeight - Height of the game window in pixels.
+     * @param title - Title of the dialog.
+     * @param tableWidth - Width of the table in pixels.
+     */
+    constructor(windowWidth: number, windowHeight: number, title: string, tableWidth: number) {
+        super(windowWidth, windowHeight, title);
+
+        this.tableWidth = tableWidth;
+
+        const previousButton = createDialogButton("<", () => this.showBoard(this.boardIndex - 1), 0);
+        const nextButton = createDialogButton(">", () => this.showBoard(this.boardIndex + 1), 0);
+
+        nextButton.x = tableWidth - nextButton.width;
+
+        this.boardLabel.y = 2;
+
+        this.table.y = previousButton.height + 4;
+
+        this.content.addChild(previousButton, this.boardLabel, nextButton, this.table);
+    }
+}
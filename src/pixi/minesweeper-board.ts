@@ -1,72 +1,475 @@
-import { Container, FederatedPointerEvent } from "pixi.js";
-import { TILE_SIZE_PX } from "..";
+import { Container, FederatedPointerEvent, Graphics, Rectangle, Spritesheet, Texture } from "pixi.js";
 import { MinesweeperTilePixi } from "./minesweeper-tile";
-import { Point, eightWayNeighbors } from "../lib/grid";
+import { Point } from "../lib/grid";
 import { MinesweeperBoard } from "../core/minesweeper-board";
-import { assert } from "../utils/assert";
+import { MinesweeperProbabilityOverlayPixi } from "./minesweeper-probability-overlay";
+import { ChordingScheme } from "../board-settings";
+import { TILE_LAYOUTS, TileLayout, getBoardHeightPx, getBoardWidthPx, getTilePosition, getTilesInRegion } from "./minesweeper-tile-layout";
+import { getHexTileTextures } from "./minesweeper-hex-tiles";
+import { Signal } from "../lib/signal";
+
+const KEYBOARD_CURSOR_COLOR = 0xff0000;
+
+/**
+ * Width and height of a chunk of tiles. Sprites are only created for the chunks in the visible region.
+ */
+const CHUNK_SIZE_TILES = 16;
+
+// Bits of `PointerEvent.buttons`
+const LEFT_BUTTON = 1;
+const RIGHT_BUTTON = 2;
+const MIDDLE_BUTTON = 4;
+
+export type InputOptions = {
+    /**
+     * How long a touch has to be held to flag a tile.
+     */
+    readonly longPressMS: number,
+
+    /**
+     * Whether the header has a button to switch tapping between opening and flagging.
+     */
+    readonly showFlagModeButton: boolean,
+
+    /**
+     * How to open the neighbors of a number with the mouse.
+     */
+    readonly chordingScheme: ChordingScheme,
+};
+
+/**
+ * Sprites of a square of tiles, created when it becomes visible and destroyed when it's scrolled away.
+ */
+class TileChunkPixi extends Container {
+
+    private readonly tiles: MinesweeperTilePixi[] = [];
+
+    /**
+     * Column of the first tile of the chunk.
+     */
+    readonly left: number;
+
+    /**
+     * Row of the first tile of the chunk.
+     */
+    readonly top: number;
+
+    readonly columns: number;
+
+    readonly rows: number;
+
+    /**
+     * @returns The sprite of a tile in the chunk, or `undefined` if the tile is in another chunk.
+     */
+    public getTile(point: Point): MinesweeperTilePixi | undefined {
+        const x = point.x - this.left;
+        const y = point.y - this.top;
+
+        if (x < 0 || x >= this.columns || y < 0 || y >= this.rows) return undefined;
+
+        return this.tiles[x + y * this.columns];
+    }
+
+    public *points(): Generator<Point> {
+        for (let y = this.top; y < this.top + this.rows; y++) {
+            for (let x = this.left; x < this.left + this.columns; x++) {
+                yield { x, y };
+            }
+        }
+    }
+
+    /**
+     * @param left - Column of the first tile of the chunk.
+     * @param top - Row of the first tile of the chunk.
+     * @param columns - Number of columns, smaller than {@link CHUNK_SIZE_TILES} at the right edge of the board.
+     * @param rows - Number of rows, smaller than {@link CHUNK_SIZE_TILES} at the bottom edge of the board.
+     * @param layout - Where the tiles are drawn.
+     */
+    constructor(left: number, top: number, columns: number, rows: number, layout: TileLayout) {
+        super();
+
+        this.left = left;
+        this.top = top;
+        this.columns = columns;
+        this.rows = rows;
+
+        for (const point of this.points()) {
+            const tile = new MinesweeperTilePixi();
+            tile.position.copyFrom(getTilePosition(layout, point));
+            this.tiles.push(tile);
+            this.addChild(tile);
+        }
+    }
+}
 
 export class MinesweeperBoardPixi extends Container {
 
     private board: MinesweeperBoard;
 
-    private isMousePressed: boolean = false;
+    /**
+     * This signal is emitted for every click of the player on a tile: opens, chords and flags,
+     * even the ones that don't change the board.
+     */
+    readonly tileClickedSignal: Signal<void> = new Signal();
+
+    /**
+     * The touch or pen that pressed the board, `null` if it's not pressed. Other touches are ignored while it's pressed.
+     */
+    private pressedPointerId: number | null = null;
+
+    /**
+     * Mouse buttons held over the board, as in `PointerEvent.buttons`.
+     */
+    private pressedMouseButtons: number = 0;
+
+    /**
+     * Whether the mouse buttons held together chord, with both buttons or the middle button.
+     * It lasts until all the buttons are released, so the button released last doesn't open or flag.
+     */
+    private isChordPress: boolean = false;
+
+    /**
+     * Whether the chord of the current press was done by releasing one of its buttons.
+     */
+    private isChordReleased: boolean = false;
+
+    private readonly longPressMS: number;
+
+    private readonly chordingScheme: ChordingScheme;
+
+    private longPressTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * Whether the current press was held long enough to flag, so releasing it doesn't open the tile.
+     */
+    private isLongPressHandled: boolean = false;
+
+    /**
+     * Whether tapping a closed tile flags it instead of opening it.
+     */
+    public isFlagMode: boolean = false;
 
     private lastHoveredTile: Point | null = null;
 
-    // Key is JSON.stringify Point
-    // TODO: Is there a better way? At least can use a custom serialization function
-    private pointToTile: Map<string, MinesweeperTilePixi> = new Map();
+    /**
+     * Chunks of the visible region. Key is the index of the chunk in row-major order.
+     */
+    private chunks: Map<number, TileChunkPixi> = new Map();
 
-    // Value is JSON.stringify Point
-    private highlightedTiles: Set<string> = new Set();
+    private readonly chunksContainer: Container = new Container();
 
-    private getTileByPoint(point: Point): MinesweeperTilePixi | undefined {
-        return this.pointToTile.get(JSON.stringify(point));
+    private readonly chunkColumns: number;
+
+    /**
+     * The region of the board in pixels that has sprites, set by the camera. Nothing is shown until it's set.
+     */
+    private _visibleRegion: Rectangle = new Rectangle();
+
+    /**
+     * Indexes of the highlighted tiles in row-major order.
+     */
+    private highlightedTiles: Set<number> = new Set();
+
+    /**
+     * Tile highlighted as a hint. It stays highlighted until the board changes.
+     */
+    private hintedTile: Point | null = null;
+
+    private probabilityOverlay: MinesweeperProbabilityOverlayPixi;
+
+    private isProbabilityUpdateScheduled: boolean = false;
+
+    /**
+     * Where the tiles are drawn, depending on the shape of the tiles of the board.
+     */
+    private readonly tileLayout: TileLayout;
+
+    /**
+     * The `cell/` textures of the theme for the shape of the tiles.
+     */
+    private tileTextures: Record<string, Texture>;
+
+    private keyboardCursor: Graphics = new Graphics();
+
+    private _cursorPoint: Point | null = null;
+
+    /**
+     * Tile under the keyboard cursor, `null` while the cursor is hidden.
+     */
+    public get cursorPoint(): Point | null {
+        return this._cursorPoint;
     }
 
-    private onTileChanged(point: Point) {
-        const tile = this.getTileByPoint(point);
+    /**
+     * Moves the keyboard cursor to a tile, or hides it with `null`. Points out of bounds hide it too.
+     */
+    public set cursorPoint(point: Point | null) {
+        this._cursorPoint = point !== null && this.board.isPointInBounds(point) ? point : null;
+
+        this.keyboardCursor.visible = this._cursorPoint !== null;
+
+        if (this._cursorPoint !== null) {
+            this.keyboardCursor.position.copyFrom(getTilePosition(this.tileLayout, this._cursorPoint));
+        }
+    }
+
+    public get isProbabilityOverlayVisible(): boolean {
+        return this.probabilityOverlay.visible;
+    }
+
+    public set isProbabilityOverlayVisible(isVisible: boolean) {
+        this.probabilityOverlay.visible = isVisible;
+
+        if (isVisible) {
+            this.probabilityOverlay.update(this.board);
+        }
+    }
+
+    /**
+     * Changes the theme of the tiles.
+     * @param spritesheet - Spritesheet of the theme.
+     */
+    public set spritesheet(spritesheet: Spritesheet) {
+        this.tileTextures = this.getTileTextures(spritesheet);
+
+        for (const chunk of this.chunks.values()) {
+            this.updateChunkTextures(chunk);
+        }
+    }
+
+    private getTileTextures(spritesheet: Spritesheet): Record<string, Texture> {
+        return this.tileLayout.shape === "hex" ? getHexTileTextures(spritesheet) : spritesheet.textures;
+    }
+
+    public get visibleRegion(): Rectangle {
+        return this._visibleRegion;
+    }
 
-        if (tile === undefined) {
-            console.error(`Clicked on a tile that is not mapped: ${tile}`);
+    /**
+     * Creates the sprites of the chunks that overlap a region and destroys the others.
+     * @param region - The visible part of the board in pixels of the board.
+     */
+    public set visibleRegion(region: Rectangle) {
+        this._visibleRegion = region;
+
+        const chunkRows = Math.ceil(this.board.height / CHUNK_SIZE_TILES);
+
+        const tiles = getTilesInRegion(this.tileLayout, region);
+
+        const left = Math.max(0, Math.floor(tiles.left / CHUNK_SIZE_TILES));
+        const top = Math.max(0, Math.floor(tiles.top / CHUNK_SIZE_TILES));
+        const right = Math.min(this.chunkColumns, Math.ceil(tiles.right / CHUNK_SIZE_TILES));
+        const bottom = Math.min(chunkRows, Math.ceil(tiles.bottom / CHUNK_SIZE_TILES));
+
+        for (const [index, chunk] of this.chunks) {
+            const x = index % this.chunkColumns;
+            const y = Math.floor(index / this.chunkColumns);
+
+            if (x >= left && x < right && y >= top && y < bottom) continue;
+
+            this.chunks.delete(index);
+            chunk.destroy({ children: true });
+        }
+
+        for (let y = top; y < bottom; y++) {
+            for (let x = left; x < right; x++) {
+                const index = x + y * this.chunkColumns;
+
+                if (this.chunks.has(index)) continue;
+
+                const chunkLeft = x * CHUNK_SIZE_TILES;
+                const chunkTop = y * CHUNK_SIZE_TILES;
+
+                const chunk = new TileChunkPixi(
+                    chunkLeft,
+                    chunkTop,
+                    Math.min(CHUNK_SIZE_TILES, this.board.width - chunkLeft),
+                    Math.min(CHUNK_SIZE_TILES, this.board.height - chunkTop),
+                    this.tileLayout,
+                );
+
+                this.chunks.set(index, chunk);
+                this.chunksContainer.addChild(chunk);
+
+                this.updateChunkTextures(chunk);
+            }
+        }
+
+        this.probabilityOverlay.region = region;
+    }
+
+    private updateChunkTextures(chunk: TileChunkPixi) {
+        for (const point of chunk.points()) {
+            this.updateTileTexture(point);
+        }
+    }
+
+    /**
+     * Moves the keyboard cursor by a number of tiles, wrapping around the edges of the board.
+     * The first move shows the cursor in the middle of the board instead.
+     */
+    public moveCursor(dx: number, dy: number) {
+        if (this._cursorPoint === null) {
+            this.cursorPoint = {
+                x: Math.floor(this.board.width / 2),
+                y: Math.floor(this.board.height / 2),
+            };
             return;
         }
 
+        this.cursorPoint = {
+            x: (this._cursorPoint.x + dx % this.board.width + this.board.width) % this.board.width,
+            y: (this._cursorPoint.y + dy % this.board.height + this.board.height) % this.board.height,
+        };
+    }
+
+    /**
+     * Opens the tile under the keyboard cursor, or chords if it's an open number.
+     */
+    public clickCursorTile() {
+        if (this._cursorPoint === null) return;
+
+        this.tapTile(this._cursorPoint, false, this.chordingScheme !== "disabled");
+    }
+
+    /**
+     * Flags the tile under the keyboard cursor, like a right click.
+     */
+    public changeCursorTileState() {
+        if (this._cursorPoint === null) return;
+
+        this.tileClickedSignal.emit();
+        this.board.changeTileState(this._cursorPoint);
+    }
+
+    /**
+     * @returns The sprite of a tile, or `undefined` if it's out of the visible region.
+     */
+    private getTileByPoint(point: Point): MinesweeperTilePixi | undefined {
+        if (!this.board.isPointInBounds(point)) return undefined;
+
+        const chunkX = Math.floor(point.x / CHUNK_SIZE_TILES);
+        const chunkY = Math.floor(point.y / CHUNK_SIZE_TILES);
+
+        return this.chunks.get(chunkX + chunkY * this.chunkColumns)?.getTile(point);
+    }
+
+    private getTileIndex(point: Point): number {
+        return point.x + point.y * this.board.width;
+    }
+
+    /**
+     * Updates the tiles changed by an action.
+     * @param points - The points of the changed tiles.
+     */
+    private onTilesChanged(points: readonly Point[]) {
+        this.clearHint();
+
+        for (const point of points) {
+            this.updateTileTexture(point);
+        }
+
+        this.scheduleProbabilityUpdate();
+    }
+
+    /**
+     * Updates the probability overlay once all the changes of the current action are applied.
+     */
+    private scheduleProbabilityUpdate() {
+        if (!this.isProbabilityOverlayVisible || this.isProbabilityUpdateScheduled) return;
+
+        this.isProbabilityUpdateScheduled = true;
+
+        queueMicrotask(() => {
+            this.isProbabilityUpdateScheduled = false;
+
+            if (this.isProbabilityOverlayVisible) {
+                this.probabilityOverlay.update(this.board);
+            }
+        });
+    }
+
+    /**
+     * Highlights a tile until the board changes.
+     * @param point - The point of the tile to highlight.
+     */
+    public showHint(point: Point) {
+        this.clearHint();
+
+        if (!this.board.isPointInBounds(point)) return;
+
+        this.hintedTile = point;
         this.updateTileTexture(point);
     }
 
+    private clearHint() {
+        if (this.hintedTile === null) return;
+
+        const point = this.hintedTile;
+
+        this.hintedTile = null;
+
+        this.updateTileTexture(point);
+    }
+
+    private isTileHighlighted(point: Point): boolean {
+        // The hinted tile stays highlighted.
+        return this.highlightedTiles.has(this.getTileIndex(point)) || (this.hintedTile?.x === point.x && this.hintedTile?.y === point.y);
+    }
+
+    /**
+     * Updates the sprite of a tile, if the tile is in the visible region.
+     */
     private updateTileTexture(point: Point) {
         const tile = this.getTileByPoint(point);
-        if (tile === undefined) {
-            console.warn(`Tried to update a tile that is out of bounds: ${point.x}, ${point.y}`);
-            return;
-        }
+
+        if (tile === undefined) return;
+
+        tile.highlight = this.isTileHighlighted(point);
+
         tile.updateTexture(
             this.board.getTileData(point),
-            this.board.getTileState(point)
+            this.board.getTileState(point),
+            this.tileTextures,
         );
     }
 
     private clearHighlight() {
-        for (const pointString of this.highlightedTiles) {
-            const point: Point = JSON.parse(pointString);
-            const tile = this.getTileByPoint(point);
-            assert(tile !== undefined, "Can't be undefined, because in order to set the highlight, you need to get it first.");
-            tile.highlight = false;
-            this.updateTileTexture(point);
-        }
+        const highlightedTiles = Array.from(this.highlightedTiles);
+
         this.highlightedTiles.clear();
+
+        for (const index of highlightedTiles) {
+            this.updateTileTexture({ x: index % this.board.width, y: Math.floor(index / this.board.width) });
+        }
     }
 
     private highlightTile(point: Point) {
+        if (!this.board.isPointInBounds(point)) return;
 
-        const tile = this.getTileByPoint(point);
+        this.highlightedTiles.add(this.getTileIndex(point));
+        this.updateTileTexture(point);
+    }
 
-        if (tile === undefined) return;
+    /**
+     * Highlights the neighbors that a chord on a tile would open.
+     * @param isCenterIncluded - Whether to highlight the tile itself too, if it's closed.
+     */
+    private highlightChord(center: Point, isCenterIncluded: boolean) {
+        const centerState = this.board.getTileState(center);
 
-        tile.highlight = true;
-        this.highlightedTiles.add(JSON.stringify(point));
-        this.updateTileTexture(point);
+        if (isCenterIncluded && !centerState.isOpen && centerState.state !== "flag") {
+            this.highlightTile(center);
+        }
+
+        for (const point of this.board.neighbors(center)) {
+
+            const tileState = this.board.getTileState(point);
+
+            if (tileState.state === "flag") continue;
+
+            this.highlightTile(point);
+        }
     }
 
     private updateHighlight() {
@@ -74,26 +477,28 @@ export class MinesweeperBoardPixi extends Container {
 
         if (this.board.boardState !== "active") return;
 
-        if (!this.isMousePressed) return;
-
-        if (this.lastHoveredTile === null) return;
+        if (this.lastHoveredTile === null || !this.board.isPointInBounds(this.lastHoveredTile)) return;
 
-        const lastHoveredTileState = this.board.getTileState(this.lastHoveredTile);
-
-        if (!lastHoveredTileState.isOpen && lastHoveredTileState.state === "default") {
-            this.highlightTile(this.lastHoveredTile);
+        if (this.isChordPress) {
+            // Like in XP, the pressed tiles pop up once the chord is done, even if a button is still held.
+            if (!this.isChordReleased) this.highlightChord(this.lastHoveredTile, true);
             return;
         }
 
-        for (const point of eightWayNeighbors(this.lastHoveredTile)) {
+        const isTouch = this.pressedPointerId !== null;
 
-            if (!this.board.isPointInBounds(point)) continue;
+        if (!isTouch && (this.pressedMouseButtons & LEFT_BUTTON) === 0) return;
 
-            const tileState = this.board.getTileState(point);
+        const lastHoveredTileState = this.board.getTileState(this.lastHoveredTile);
 
-            if (tileState.state !== "default") continue;
+        if (!lastHoveredTileState.isOpen && lastHoveredTileState.state !== "flag") {
+            // In the flag mode a tap flags the tile instead of opening it.
+            if (!this.isFlagMode) this.highlightTile(this.lastHoveredTile);
+            return;
+        }
 
-            this.highlightTile(point);
+        if (this.canTapChord(isTouch)) {
+            this.highlightChord(this.lastHoveredTile, false);
         }
     }
 
@@ -102,12 +507,12 @@ export class MinesweeperBoardPixi extends Container {
 
         const { x, y } = event.getLocalPosition(this);
 
-        const newPoint: Point = {
-            x: Math.floor(x / TILE_SIZE_PX),
-            y: Math.floor(y / TILE_SIZE_PX),
-        };
+        const tilePoint = this.tileLayout.getTileAt(x, y);
+
+        // The hit area of a hexagonal board has gaps at the ends of the rows.
+        const newPoint = this.board.isPointInBounds(tilePoint) ? tilePoint : null;
 
-        if (newPoint.x === this.lastHoveredTile?.x && newPoint.y === this.lastHoveredTile?.y) {
+        if (newPoint?.x === this.lastHoveredTile?.x && newPoint?.y === this.lastHoveredTile?.y) {
             return false;
         }
 
@@ -116,71 +521,263 @@ export class MinesweeperBoardPixi extends Container {
         return true;
     }
 
+    /**
+     * Whether tapping or left clicking a number chords.
+     * Touch screens have no other buttons, so a tap chords unless chording is disabled.
+     */
+    private canTapChord(isTouch: boolean): boolean {
+        return isTouch ? this.chordingScheme !== "disabled" : this.chordingScheme === "left";
+    }
+
+    /**
+     * Opens a tapped tile or flags it, or chords if it's an open number.
+     * Tapping an open number chords in the flag mode too.
+     */
+    private tapTile(point: Point, isFlag: boolean, canChord: boolean) {
+        if (!this.board.isPointInBounds(point)) return;
+
+        this.tileClickedSignal.emit();
+
+        if (this.board.getTileState(point).isOpen) {
+            if (canChord) this.board.clickTile(point);
+        } else if (isFlag) {
+            this.board.changeTileState(point);
+        } else {
+            this.board.clickTile(point);
+        }
+    }
+
+    /**
+     * Whether the mouse buttons chord together in the chording scheme.
+     */
+    private isChordButtons(buttons: number): boolean {
+        switch (this.chordingScheme) {
+            case "both":
+                return (buttons & LEFT_BUTTON) !== 0 && (buttons & RIGHT_BUTTON) !== 0;
+            case "middle":
+                return (buttons & MIDDLE_BUTTON) !== 0;
+            case "left":
+            case "disabled":
+                return false;
+        }
+    }
+
+    /**
+     * Browsers send a `pointerdown` for the first button and a `pointerup` for the last one,
+     * the buttons in between only change `buttons` of a `pointermove`. So the presses and the releases
+     * are found by comparing the buttons with the ones held before.
+     */
+    private updateMouseButtons(event: FederatedPointerEvent) {
+        const buttons = event.buttons;
+
+        const pressed = buttons & ~this.pressedMouseButtons;
+        const released = this.pressedMouseButtons & ~buttons;
+
+        if (pressed === 0 && released === 0) return;
+
+        this.pressedMouseButtons = buttons;
+
+        if (this.isChordButtons(buttons)) {
+            this.isChordPress = true;
+        }
+
+        const point = this.lastHoveredTile;
+
+        if (point !== null) {
+            if (this.isChordPress) {
+                // Releasing any of the buttons chords. A closed tile is never opened by a chord.
+                if (released !== 0 && !this.isChordReleased) {
+                    this.isChordReleased = true;
+                    if (this.board.isPointInBounds(point)) {
+                        this.tileClickedSignal.emit();
+                        if (this.board.getTileState(point).isOpen) this.board.clickTile(point);
+                    }
+                }
+            } else {
+                // With both buttons chording, the right button flags on press like in XP,
+                // so that releasing it after a chord doesn't flag.
+                const flagButtons = this.chordingScheme === "both" ? pressed : released;
+
+                if ((flagButtons & RIGHT_BUTTON) !== 0) {
+                    this.tileClickedSignal.emit();
+                    this.board.changeTileState(point);
+                }
+
+                if ((released & LEFT_BUTTON) !== 0) {
+                    this.tapTile(point, this.isFlagMode, this.canTapChord(false));
+                }
+            }
+        }
+
+        if (buttons === 0) {
+            this.isChordPress = false;
+            this.isChordReleased = false;
+        }
+
+        this.updateHighlight();
+    }
+
+    private releaseMouseButtons() {
+        this.pressedMouseButtons = 0;
+        this.isChordPress = false;
+        this.isChordReleased = false;
+        this.clearHighlight();
+    }
+
+    private startLongPress() {
+        this.cancelLongPress();
+
+        this.longPressTimeout = setTimeout(() => {
+            this.longPressTimeout = null;
+
+            if (this.lastHoveredTile === null) return;
+
+            this.isLongPressHandled = true;
+            this.clearHighlight();
+
+            // A long press does what a tap doesn't.
+            this.tapTile(this.lastHoveredTile, !this.isFlagMode, this.canTapChord(true));
+        }, this.longPressMS);
+    }
+
+    private cancelLongPress() {
+        if (this.longPressTimeout === null) return;
+
+        clearTimeout(this.longPressTimeout);
+        this.longPressTimeout = null;
+    }
+
+    private releasePointer() {
+        this.pressedPointerId = null;
+        this.cancelLongPress();
+        this.clearHighlight();
+    }
+
+    /**
+     * Disconnects the board, for example before the board is replaced with a new one.
+     */
     public clearSignals() {
+        this.cancelLongPress();
+        this.tileClickedSignal.clear();
         this.board.clearSignals();
     }
 
-    constructor(board: MinesweeperBoard) {
+    /**
+     * @param board - The board to show.
+     * @param inputOptions - How the board is played with the mouse and touches.
+     * @param spritesheet - Spritesheet of the theme of the tiles.
+     */
+    constructor(board: MinesweeperBoard, inputOptions: InputOptions, spritesheet: Spritesheet) {
 
         super();
 
         this.board = board;
 
-        for (const point of board.points()) {
-            const pixiTile = new MinesweeperTilePixi();
+        this.tileLayout = TILE_LAYOUTS[board.topology.tileShape];
 
-            pixiTile.position = {
-                x: point.x * TILE_SIZE_PX,
-                y: point.y * TILE_SIZE_PX,
-            };
+        this.tileTextures = this.getTileTextures(spritesheet);
 
-            this.addChild(pixiTile);
+        this.longPressMS = inputOptions.longPressMS;
+        this.chordingScheme = inputOptions.chordingScheme;
 
-            this.pointToTile.set(JSON.stringify(point), pixiTile);
-        }
+        this.chunkColumns = Math.ceil(board.width / CHUNK_SIZE_TILES);
+
+        this.addChild(this.chunksContainer);
+
+        this.probabilityOverlay = new MinesweeperProbabilityOverlayPixi(this.tileLayout);
+
+        this.probabilityOverlay.visible = false;
+
+        this.addChild(this.probabilityOverlay);
+
+        this.keyboardCursor
+            .lineStyle(1, KEYBOARD_CURSOR_COLOR, 1, 0)
+            .drawPolygon(this.tileLayout.outline.slice());
+
+        this.keyboardCursor.visible = false;
+        this.keyboardCursor.eventMode = "none";
+
+        this.addChild(this.keyboardCursor);
 
         this.eventMode = "static";
 
-        this.on('mouseenter', (event) => {
+        // The tiles out of the visible region have no sprites to hit.
+        this.hitArea = new Rectangle(
+            0,
+            0,
+            getBoardWidthPx(this.tileLayout, board.width, board.height),
+            getBoardHeightPx(this.tileLayout, board.height),
+        );
+
+        this.on('pointerenter', (event) => {
             this.updateLastHovered(event);
             this.updateHighlight();
         });
 
-        this.on('mousemove', (event) => {
+        this.on('pointermove', (event) => {
+            if (this.pressedPointerId !== null && event.pointerId !== this.pressedPointerId) return;
             const wasUpdated = this.updateLastHovered(event);
+            if (event.pointerType === "mouse") {
+                this.updateMouseButtons(event);
+            } else if (wasUpdated) {
+                // Moving to another tile cancels the long press, so dragging a finger doesn't flag.
+                this.cancelLongPress();
+            }
             if (wasUpdated) this.updateHighlight();
         });
 
-        this.on('mouseleave', (_event) => {
+        this.on('pointerleave', (_event) => {
             this.lastHoveredTile = null;
+            this.cancelLongPress();
             this.clearHighlight();
         });
 
-        this.on('mousedown', (_event) => {
-            this.isMousePressed = true;
+        this.on('pointerdown', (event) => {
+            if (event.pointerType === "mouse") {
+                this.updateLastHovered(event);
+                this.updateMouseButtons(event);
+                return;
+            }
+
+            if (this.pressedPointerId !== null) return;
+            // Touches don't hover, so the tile is only known once it's pressed.
+            this.updateLastHovered(event);
+            this.pressedPointerId = event.pointerId;
+            this.isLongPressHandled = false;
+            this.startLongPress();
             this.updateHighlight();
         });
 
-        this.on('mouseup', (_event) => {
-            this.clearHighlight();
-            if (!this.isMousePressed) return;
-            this.isMousePressed = false;
-            if (this.lastHoveredTile === null) return;
-            this.board.clickTile(this.lastHoveredTile);
+        this.on('pointerup', (event) => {
+            if (event.pointerType === "mouse") {
+                this.updateMouseButtons(event);
+                return;
+            }
+
+            if (event.pointerId !== this.pressedPointerId) return;
+            this.releasePointer();
+            if (this.isLongPressHandled || this.lastHoveredTile === null) return;
+            this.tapTile(this.lastHoveredTile, this.isFlagMode, this.canTapChord(true));
         });
 
-        this.on('mouseupoutside', (_event) => {
-            this.clearHighlight();
-            this.isMousePressed = false;
+        this.on('pointerupoutside', (event) => {
+            if (event.pointerType === "mouse") {
+                this.releaseMouseButtons();
+                return;
+            }
+
+            if (event.pointerId !== this.pressedPointerId) return;
+            this.releasePointer();
         });
 
-        this.on('rightup', (_event) => {
-            if (this.lastHoveredTile === null) return;
-            this.board.changeTileState(this.lastHoveredTile);
+        // The browser took over the touch, for example to zoom the page.
+        this.on('pointercancel', (event) => {
+            if (event.pointerId !== this.pressedPointerId) return;
+            this.releasePointer();
         });
 
-        this.board.tileChangedSignal.connect((point) => {
-            this.onTileChanged(point);
+        this.board.tilesChangedSignal.connect((points) => {
+            this.onTilesChanged(points);
         });
     }
 }
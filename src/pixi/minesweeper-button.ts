@@ -57,18 +57,19 @@ export class MinesweeperButtonPixi extends Container {
 
         this.sprite.eventMode = "static";
 
-        this.sprite.on('mouseleave', (_event) => {
+        this.sprite.on('pointerleave', (_event) => {
             if (!this.isPressed) return;
             this.isPressed = false;
             this.updateTexture();
         });
 
-        this.sprite.on('mousedown', (_event) => {
+        this.sprite.on('pointerdown', (event) => {
+            if (event.button !== 0) return;
             this.isPressed = true;
             this.updateTexture();
         });
 
-        this.sprite.on('mouseup', (_event) => {
+        this.sprite.on('pointerup', (_event) => {
             if (!this.isPressed) return;
             this.isPressed = false;
             this.updateTexture();
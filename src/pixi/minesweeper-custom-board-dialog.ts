@@ -0,0 +1,120 @@
+import { Container, Text } from "pixi.js";
+import { BoardSettings, parseCustomBoardSettings } from "../board-settings";
+import { MinesweeperDialogPixi, createDialogText } from "./minesweeper-dialog";
+import { Signal } from "../lib/signal";
+import { MinesweeperTextFieldPixi, TEXT_FIELD_HEIGHT_PX } from "./minesweeper-text-field";
+
+const FIELD_LABEL_WIDTH_PX = 36;
+const FIELD_WIDTH_PX = 44;
+const FIELD_GAP_PX = 4;
+
+/**
+ * Digits that fit in the fields. Bigger boards can still be chosen in the URL.
+ */
+const SIZE_FIELD_MAX_LENGTH = 4;
+const BOMBS_FIELD_MAX_LENGTH = 6;
+const ERROR_WIDTH_PX = 110;
+
+/**
+ * The "Custom Field" dialog to choose the size and the number of bombs of a custom board.
+ */
+export class MinesweeperCustomBoardDialogPixi extends MinesweeperDialogPixi {
+
+    private readonly fields: MinesweeperTextFieldPixi[];
+
+    private focusedFieldIndex: number = 0;
+
+    private readonly errorText: Text;
+
+    /**
+     * This signal is emitted with valid settings when the player presses OK.
+     */
+    readonly submittedSignal: Signal<BoardSettings> = new Signal();
+
+    private focusField(index: number) {
+        this.focusedFieldIndex = (index + this.fields.length) % this.fields.length;
+
+        for (const [i, field] of this.fields.entries()) {
+            field.isFocused = i === this.focusedFieldIndex;
+        }
+    }
+
+    private submit() {
+        const [width, height, bombs] = this.fields.map(field => field.value);
+
+        const result = parseCustomBoardSettings(width, height, bombs);
+
+        if ("error" in result) {
+            this.errorText.text = result.error;
+            this.layout();
+            return;
+        }
+
+        this.submittedSignal.emit(result.settings);
+        this.close();
+    }
+
+    /**
+     * `Tab` moves between the fields, `Enter` submits.
+     */
+    public override handleKeyDown(event: KeyboardEvent): boolean {
+        switch (event.key) {
+            case "Enter":
+                this.submit();
+                return true;
+            case "Tab":
+                this.focusField(this.focusedFieldIndex + (event.shiftKey ? -1 : 1));
+                return true;
+            case "Escape":
+                return super.handleKeyDown(event);
+            default:
+                return this.fields[this.focusedFieldIndex].handleKeyDown(event);
+        }
+    }
+
+    public override destroy(options?: Parameters<Container["destroy"]>[0]) {
+        this.submittedSignal.clear();
+        super.destroy(options);
+    }
+
+    /**
+     * @param windowWidth - Width of the game window in pixels.
+     * @param windowHeight - Height of the game window in pixels.
+     * @param settings - The settings the fields start with.
+     */
+    constructor(windowWidth: number, windowHeight: number, settings: BoardSettings) {
+        super(windowWidth, windowHeight, "Custom Field");
+
+        const rows: [string, number, number][] = [
+            ["Width:", settings.width, SIZE_FIELD_MAX_LENGTH],
+            ["Height:", settings.height, SIZE_FIELD_MAX_LENGTH],
+            ["Bombs:", settings.bombs, BOMBS_FIELD_MAX_LENGTH],
+        ];
+
+        this.fields = rows.map(([label, value, maxLength], i) => {
+            const y = i * (TEXT_FIELD_HEIGHT_PX + FIELD_GAP_PX);
+
+            const labelText = createDialogText(label);
+            labelText.y = y + 1;
+
+            const field = new MinesweeperTextFieldPixi(`${value}`, FIELD_WIDTH_PX, maxLength, /^[0-9]$/, () => this.focusField(i));
+            field.position.set(FIELD_LABEL_WIDTH_PX, y);
+
+            this.content.addChild(labelText, field);
+
+            return field;
+        });
+
+        this.errorText = createDialogText("", { fill: 0xcc0000, wordWrap: true, wordWrapWidth: ERROR_WIDTH_PX });
+        this.errorText.y = rows.length * (TEXT_FIELD_HEIGHT_PX + FIELD_GAP_PX);
+
+        this.content.addChild(this.errorText);
+
+        this.focusField(0);
+
+        this.addButton("OK", () => this.submit());
+        this.addButton("Cancel", () => this.close());
+
+        this.layout();
+    }
+}
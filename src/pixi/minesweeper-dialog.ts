@@ -0,0 +1,162 @@
+import { Assets, Container, Graphics, ITextStyle, NineSlicePlane, Spritesheet, Text } from "pixi.js";
+import { MAX_ZOOM } from "../zoom";
+import { Signal } from "../lib/signal";
+
+const DIALOG_PADDING_PX = 6;
+const DIALOG_TITLE_GAP_PX = 6;
+const DIALOG_BUTTON_GAP_PX = 4;
+export const DIALOG_BUTTON_HEIGHT_PX = 13;
+const DIALOG_BUTTON_MIN_WIDTH_PX = 36;
+
+const DIALOG_TEXT_STYLE: Partial<ITextStyle> = {
+    fontFamily: "Tahoma, Verdana, sans-serif",
+    fontSize: 8,
+    fill: 0x000000,
+};
+
+/**
+ * Creates a text in the style of the dialogs.
+ * The stage is scaled up, so the text is rendered at the resolution of the highest zoom to stay sharp at any zoom.
+ */
+export function createDialogText(text: string, style: Partial<ITextStyle> = {}): Text {
+    const dialogText = new Text(text, { ...DIALOG_TEXT_STYLE, ...style });
+    dialogText.resolution = MAX_ZOOM * (window.devicePixelRatio || 1);
+    return dialogText;
+}
+
+/**
+ * Creates a push button in the style of Windows XP.
+ * @param label - Text on the button.
+ * @param onPress - Called when the button is clicked or tapped.
+ * @param minWidth - Minimum width of the button in pixels.
+ */
+export function createDialogButton(label: string, onPress: () => void, minWidth: number = DIALOG_BUTTON_MIN_WIDTH_PX): Container {
+    const button = new Container();
+
+    const text = createDialogText(label);
+
+    const width = Math.max(minWidth, Math.ceil(text.width) + 8);
+
+    const background = new Graphics()
+        .lineStyle(1, 0x003c74)
+        .beginFill(0xf4f3ee)
+        .drawRoundedRect(0, 0, width, DIALOG_BUTTON_HEIGHT_PX, 2)
+        .endFill();
+
+    text.position.set(Math.round((width - text.width) / 2), Math.round((DIALOG_BUTTON_HEIGHT_PX - text.height) / 2));
+
+    button.addChild(background, text);
+
+    button.eventMode = "static";
+    button.cursor = "pointer";
+    button.on("pointertap", onPress);
+
+    return button;
+}
+
+/**
+ * A modal dialog over the game window: a title, content and a row of buttons.
+ * Subclasses fill {@link MinesweeperDialogPixi.content}, add buttons and call {@link MinesweeperDialogPixi.layout}.
+ */
+export class MinesweeperDialogPixi extends Container {
+
+    private readonly windowWidth: number;
+    private readonly windowHeight: number;
+
+    private readonly panel: NineSlicePlane;
+    private readonly title: Text;
+    private readonly buttons: Container = new Container();
+
+    protected readonly content: Container = new Container();
+
+    /**
+     * This signal is emitted when the dialog is closed. The owner should remove and destroy it.
+     */
+    readonly closedSignal: Signal<void> = new Signal();
+
+    protected addButton(label: string, onPress: () => void) {
+        const button = createDialogButton(label, onPress);
+
+        const lastButton = this.buttons.children.at(-1) as Container | undefined;
+
+        button.position.x = lastButton === undefined ? 0 : lastButton.x + lastButton.width + DIALOG_BUTTON_GAP_PX;
+
+        this.buttons.addChild(button);
+    }
+
+    /**
+     * Sizes the panel to fit the content and centers it in the window. Call it after the content changes.
+     */
+    protected layout() {
+        const innerWidth = Math.ceil(Math.max(this.title.width, this.content.width, this.buttons.width));
+
+        this.title.position.set(DIALOG_PADDING_PX + Math.round((innerWidth - this.title.width) / 2), DIALOG_PADDING_PX);
+
+        this.content.position.set(DIALOG_PADDING_PX, Math.ceil(this.title.y + this.title.height) + DIALOG_TITLE_GAP_PX);
+
+        this.buttons.position.set(
+            DIALOG_PADDING_PX + innerWidth - Math.ceil(this.buttons.width),
+            Math.ceil(this.content.y + this.content.height) + DIALOG_TITLE_GAP_PX,
+        );
+
+        this.panel.width = innerWidth + DIALOG_PADDING_PX * 2;
+        this.panel.height = Math.ceil(this.buttons.y + this.buttons.height) + DIALOG_PADDING_PX;
+
+        this.panel.position.set(
+            Math.max(0, Math.round((this.windowWidth - this.panel.width) / 2)),
+            Math.max(0, Math.round((this.windowHeight - this.panel.height) / 2)),
+        );
+    }
+
+    public close() {
+        this.closedSignal.emit();
+    }
+
+    /**
+     * Handles a key press while the dialog is open. `Escape` and `Enter` close it.
+     * @returns `true` if the key was handled.
+     */
+    public handleKeyDown(event: KeyboardEvent): boolean {
+        if (event.key !== "Escape" && event.key !== "Enter") return false;
+
+        this.close();
+        return true;
+    }
+
+    public override destroy(options?: Parameters<Container["destroy"]>[0]) {
+        this.closedSignal.clear();
+        super.destroy(options);
+    }
+
+    /**
+     * @param windowWidth - Width of the game window in pixels. The dialog blocks the window while it's open.
+     * @param windowHeight - Height of the game window in pixels.
+     * @param title - Title of the dialog.
+     */
+    constructor(windowWidth: number, windowHeight: number, title: string) {
+        super();
+
+        this.windowWidth = windowWidth;
+        this.windowHeight = windowHeight;
+
+        const spritesheet: Spritesheet = Assets.get("spritesheet");
+
+        // Catches the clicks, so the board can't be played while the dialog is open.
+        const blocker = new Graphics()
+            .beginFill(0x000000, 0.25)
+            .drawRect(0, 0, windowWidth, windowHeight)
+            .endFill();
+
+        blocker.eventMode = "static";
+
+        this.addChild(blocker);
+
+        this.panel = new NineSlicePlane(spritesheet.textures["background/main.png"]);
+
+        this.addChild(this.panel);
+
+        this.title = createDialogText(title, { fontWeight: "bold" });
+
+        this.panel.addChild(this.title, this.content, this.buttons);
+    }
+}
@@ -0,0 +1,90 @@
+import { Container, Graphics, Rectangle } from "pixi.js";
+import { FLAG_MODE_BUTTON_SIZE_PX } from "..";
+import { Signal } from "../lib/signal";
+
+const FACE_COLOR = 0xc0c0c0;
+const LIGHT_COLOR = 0xffffff;
+const SHADOW_COLOR = 0x808080;
+const FLAG_COLOR = 0xff0000;
+const POLE_COLOR = 0x000000;
+
+/**
+ * A small toggle in the header for touch screens. While it's on, tapping a closed tile flags it instead of opening it.
+ */
+export class MinesweeperFlagModeButtonPixi extends Container {
+
+    private _isOn: boolean = false;
+
+    private readonly graphics: Graphics = new Graphics();
+
+    /**
+     * This signal is emitted with the new state when the button is toggled.
+     */
+    readonly toggledSignal: Signal<boolean> = new Signal();
+
+    public get isOn(): boolean {
+        return this._isOn;
+    }
+
+    public set isOn(isOn: boolean) {
+        this._isOn = isOn;
+        this.draw();
+    }
+
+    /**
+     * Draws a raised button with a flag, or a sunken one while it's on.
+     */
+    private draw() {
+        const size = FLAG_MODE_BUTTON_SIZE_PX;
+
+        const topLeftColor = this._isOn ? SHADOW_COLOR : LIGHT_COLOR;
+        const bottomRightColor = this._isOn ? LIGHT_COLOR : SHADOW_COLOR;
+
+        // The flag moves down and right when the button is pressed in, like the text of a Windows button.
+        const offset = this._isOn ? 1 : 0;
+
+        this.graphics
+            .clear()
+            .beginFill(FACE_COLOR)
+            .drawRect(0, 0, size, size)
+            .endFill()
+            .beginFill(topLeftColor)
+            .drawRect(0, 0, size, 1)
+            .drawRect(0, 0, 1, size)
+            .endFill()
+            .beginFill(bottomRightColor)
+            .drawRect(0, size - 1, size, 1)
+            .drawRect(size - 1, 0, 1, size)
+            .endFill()
+            .beginFill(FLAG_COLOR)
+            .drawPolygon([6 + offset, 2 + offset, 2 + offset, 4 + offset, 6 + offset, 6 + offset])
+            .endFill()
+            .beginFill(POLE_COLOR)
+            .drawRect(6 + offset, 2 + offset, 1, 6)
+            .drawRect(4 + offset, 8 + offset, 4, 1)
+            .drawRect(3 + offset, 9 + offset, 6, 1)
+            .endFill();
+    }
+
+    public override destroy(options?: Parameters<Container["destroy"]>[0]) {
+        this.toggledSignal.clear();
+        super.destroy(options);
+    }
+
+    constructor() {
+        super();
+
+        this.addChild(this.graphics);
+
+        this.eventMode = "static";
+        this.cursor = "pointer";
+        this.hitArea = new Rectangle(0, 0, FLAG_MODE_BUTTON_SIZE_PX, FLAG_MODE_BUTTON_SIZE_PX);
+
+        this.on("pointertap", () => {
+            this.isOn = !this._isOn;
+            this.toggledSignal.emit(this._isOn);
+        });
+
+        this.draw();
+    }
+}
@@ -0,0 +1,131 @@
+import { BaseImageResource, BaseTexture, Rectangle, Spritesheet, Texture } from "pixi.js";
+import { TILE_SIZE_PX } from "..";
+import { HEX_TOPOLOGY } from "../core/topology";
+import { MinesweeperTilePixi } from "./minesweeper-tile";
+
+/**
+ * Width of the raised edges of a closed tile, like the bevel of the classic cells.
+ */
+const CLOSED_EDGE_WIDTH_PX = 2;
+
+/**
+ * Width of the grid line an open tile draws on its upper edges, like the classic cells on their top and left.
+ */
+const OPEN_EDGE_WIDTH_PX = 1;
+
+const SIZE = TILE_SIZE_PX;
+
+/**
+ * Distances of a position to the edges of the hexagon, measured across the rows for the slanted edges
+ * so they step by whole pixels. The upper edges come first. All are positive inside the hexagon.
+ */
+function getEdgeDistances(x: number, y: number): number[] {
+    return [
+        // Upper left, left and upper right
+        (x + 2 * y - SIZE / 2) / 2,
+        x,
+        (2 * y - x + SIZE / 2) / 2,
+        // Lower right, right and lower left
+        (SIZE * 5 / 2 - x - 2 * y) / 2,
+        SIZE - x,
+        (SIZE * 3 / 2 - 2 * y + x) / 2,
+    ];
+}
+
+const UPPER_EDGE_COUNT = 3;
+
+const hexTextures: WeakMap<Spritesheet, Record<string, Texture>> = new WeakMap();
+
+/**
+ * Draws the hexagonal tiles from the square cells of a spritesheet.
+ * A cell is cut to the hexagon, and its edges are drawn again along the sides of the hexagon
+ * with the colors of the cell, so every theme gets its own hexagonal tiles.
+ */
+function createHexTileTextures(spritesheet: Spritesheet): Record<string, Texture> {
+    const resource = spritesheet.baseTexture.resource as BaseImageResource;
+    const source = resource.source as CanvasImageSource;
+
+    // A hexagonal tile has six neighbors, so there are no frames for the higher numbers.
+    const skippedNumbers = MinesweeperTilePixi.numberTextures.slice(HEX_TOPOLOGY.maxNeighbors + 1);
+
+    const frames = Object.entries(spritesheet.data.frames)
+        .filter(([name]) => name.startsWith("cell/") && !skippedNumbers.includes(name));
+
+    const sourceCanvas = document.createElement("canvas");
+    sourceCanvas.width = spritesheet.baseTexture.realWidth;
+    sourceCanvas.height = spritesheet.baseTexture.realHeight;
+
+    const sourceContext = sourceCanvas.getContext("2d", { willReadFrequently: true });
+
+    const canvas = document.createElement("canvas");
+    canvas.width = SIZE * frames.length;
+    canvas.height = SIZE;
+
+    const context = canvas.getContext("2d");
+
+    if (sourceContext === null || context === null) throw new Error("Can't draw the hexagonal tiles, 2D canvas isn't supported.");
+
+    sourceContext.drawImage(source, 0, 0);
+
+    const sourcePixels = sourceContext.getImageData(0, 0, sourceCanvas.width, sourceCanvas.height).data;
+
+    const image = context.createImageData(canvas.width, canvas.height);
+    const pixels = image.data;
+
+    const getSourceIndex = (frameX: number, frameY: number, x: number, y: number) => ((frameY + y) * sourceCanvas.width + frameX + x) * 4;
+
+    for (const [frameIndex, [name, data]] of frames.entries()) {
+        const { x: frameX, y: frameY } = data.frame;
+        const isOpen = name.startsWith("cell/open/");
+
+        // The classic cells are lit from the top left, and open cells have a grid line on the top and the left.
+        const lightIndex = getSourceIndex(frameX, frameY, 0, SIZE / 2);
+        const shadowIndex = getSourceIndex(frameX, frameY, SIZE - 1, SIZE / 2);
+
+        for (let y = 0; y < SIZE; y++) {
+            for (let x = 0; x < SIZE; x++) {
+                const distances = getEdgeDistances(x + 0.5, y + 0.5);
+                const nearest = distances.indexOf(Math.min(...distances));
+
+                // Outside of the hexagon stays transparent.
+                if (distances[nearest] < 0) continue;
+
+                let index = getSourceIndex(frameX, frameY, x, y);
+
+                if (isOpen) {
+                    if (nearest < UPPER_EDGE_COUNT && distances[nearest] < OPEN_EDGE_WIDTH_PX) index = lightIndex;
+                } else if (distances[nearest] < CLOSED_EDGE_WIDTH_PX) {
+                    index = nearest < UPPER_EDGE_COUNT ? lightIndex : shadowIndex;
+                }
+
+                const targetIndex = (y * canvas.width + frameIndex * SIZE + x) * 4;
+
+                pixels.set(sourcePixels.subarray(index, index + 4), targetIndex);
+            }
+        }
+    }
+
+    context.putImageData(image, 0, 0);
+
+    const baseTexture = BaseTexture.from(canvas);
+
+    return Object.fromEntries(frames.map(([name], frameIndex) => {
+        return [name, new Texture(baseTexture, new Rectangle(frameIndex * SIZE, 0, SIZE, SIZE))];
+    }));
+}
+
+/**
+ * Gets the hexagonal tiles of a theme, drawing them the first time.
+ * @param spritesheet - Spritesheet of the theme. Only its `cell/` frames are used.
+ * @returns The textures by the names of the square frames they're drawn from. Numbers go up to 6.
+ */
+export function getHexTileTextures(spritesheet: Spritesheet): Record<string, Texture> {
+    let textures = hexTextures.get(spritesheet);
+
+    if (textures === undefined) {
+        textures = createHexTileTextures(spritesheet);
+        hexTextures.set(spritesheet, textures);
+    }
+
+    return textures;
+}
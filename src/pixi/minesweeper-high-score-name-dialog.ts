@@ -0,0 +1,66 @@
+import { Container } from "pixi.js";
+import { MinesweeperDialogPixi, createDialogText } from "./minesweeper-dialog";
+import { Signal } from "../lib/signal";
+import { MinesweeperTextFieldPixi } from "./minesweeper-text-field";
+
+const NAME_FIELD_WIDTH_PX = 110;
+const NAME_FIELD_MAX_LENGTH = 20;
+const TEXT_FIELD_GAP_PX = 4;
+
+/**
+ * Asks for the name of the player whose time got into the high score table.
+ * The dialog can't be cancelled: closing it in any way submits the name, like OK.
+ */
+export class MinesweeperHighScoreNameDialogPixi extends MinesweeperDialogPixi {
+
+    private readonly field: MinesweeperTextFieldPixi;
+
+    private isSubmitted: boolean = false;
+
+    /**
+     * This signal is emitted with the typed name, untrimmed, when the dialog is closed.
+     */
+    readonly submittedSignal: Signal<string> = new Signal();
+
+    public override close() {
+        if (!this.isSubmitted) {
+            this.isSubmitted = true;
+            this.submittedSignal.emit(this.field.value);
+        }
+
+        super.close();
+    }
+
+    /**
+     * `Enter` and `Escape` close the dialog, the other keys go to the field.
+     */
+    public override handleKeyDown(event: KeyboardEvent): boolean {
+        return super.handleKeyDown(event) || this.field.handleKeyDown(event);
+    }
+
+    public override destroy(options?: Parameters<Container["destroy"]>[0]) {
+        this.submittedSignal.clear();
+        super.destroy(options);
+    }
+
+    /**
+     * @param windowWidth - Width of the game window in pixels.
+     * @param windowHeight - Height of the game window in pixels.
+     * @param name - The name the field starts with, e.g. the last one typed.
+     */
+    constructor(windowWidth: number, windowHeight: number, name: string) {
+        super(windowWidth, windowHeight, "New Record");
+
+        const text = createDialogText("You have one of the fastest times.\nPlease type your name.");
+
+        this.field = new MinesweeperTextFieldPixi(name.slice(0, NAME_FIELD_MAX_LENGTH), NAME_FIELD_WIDTH_PX, NAME_FIELD_MAX_LENGTH, /^.$/u, () => {});
+        this.field.y = Math.ceil(text.height) + TEXT_FIELD_GAP_PX;
+        this.field.isFocused = true;
+
+        this.content.addChild(text, this.field);
+
+        this.addButton("OK", () => this.close());
+
+        this.layout();
+    }
+}
@@ -0,0 +1,59 @@
+import { BoardSettings } from "../board-settings";
+import { MAX_HIGH_SCORES, clearHighScores, getHighScoreBoards, getHighScores } from "../high-scores";
+import { MinesweeperBoardDialogPixi } from "./minesweeper-board-dialog";
+import { createDialogText } from "./minesweeper-dialog";
+import { formatTimeMS } from "../utils/format-time";
+
+const ROW_HEIGHT_PX = 11;
+const TABLE_WIDTH_PX = 120;
+
+/**
+ * The "Fastest Mine Sweepers" dialog with the fastest times of every board.
+ */
+export class MinesweeperHighScoresDialogPixi extends MinesweeperBoardDialogPixi {
+
+    protected override getBoards(): BoardSettings[] {
+        return getHighScoreBoards();
+    }
+
+    protected override drawTable(board: BoardSettings) {
+        const highScores = getHighScores(board);
+
+        for (let i = 0; i < MAX_HIGH_SCORES; i++) {
+            const highScore = highScores.at(i);
+
+            const name = createDialogText(`${i + 1}. ${highScore?.name ?? "—"}`);
+            name.y = i * ROW_HEIGHT_PX;
+
+            const time = createDialogText(highScore === undefined ? "" : formatTimeMS(highScore.timeMS));
+            time.anchor.x = 1;
+            time.position.set(this.tableWidth, i * ROW_HEIGHT_PX);
+
+            this.table.addChild(name, time);
+        }
+    }
+
+    private resetScores() {
+        if (!window.confirm("Reset all the fastest times?")) return;
+
+        clearHighScores();
+
+        this.refresh();
+    }
+
+    /**
+     * @param windowWidth - Width of the game window in pixels.
+     * @param windowHeight - Height of the game window in pixels.
+     * @param board - The board to show first, usually the one being played.
+     */
+    constructor(windowWidth: number, windowHeight: number, board: BoardSettings) {
+        super(windowWidth, windowHeight, "Fastest Mine Sweepers", TABLE_WIDTH_PX);
+
+        this.refresh(board);
+
+        this.addButton("Reset Scores", () => this.resetScores());
+        this.addButton("OK", () => this.close());
+
+        this.layout();
+    }
+}
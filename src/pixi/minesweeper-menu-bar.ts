@@ -0,0 +1,246 @@
+import { Container, Graphics, Rectangle } from "pixi.js";
+import { MENU_BAR_HEIGHT_PX } from "..";
+import { createDialogText } from "./minesweeper-dialog";
+
+const MENU_TITLE_PADDING_X_PX = 5;
+const MENU_ITEM_HEIGHT_PX = 12;
+const MENU_ITEM_PADDING_X_PX = 12;
+const MENU_SHORTCUT_GAP_PX = 16;
+const MENU_SEPARATOR_HEIGHT_PX = 5;
+
+const MENU_BAR_COLOR = 0xece9d8;
+const MENU_COLOR = 0xffffff;
+const MENU_BORDER_COLOR = 0xaca899;
+const MENU_HIGHLIGHT_COLOR = 0x316ac5;
+
+export type MenuItem = {
+    readonly label: string,
+
+    /**
+     * Key shown next to the label. The key itself is handled elsewhere.
+     */
+    readonly shortcut?: string,
+
+    /**
+     * Shows a check mark next to the label when it returns `true`.
+     */
+    readonly isChecked?: () => boolean,
+
+    readonly onSelect: () => void,
+};
+
+export type Menu = {
+    readonly label: string,
+
+    /**
+     * Items of the menu. `null` is a separator.
+     */
+    readonly items: (MenuItem | null)[],
+};
+
+/**
+ * A menu bar in the style of Windows XP. Clicking a title opens its menu,
+ * clicking an item or anywhere else closes it.
+ */
+export class MinesweeperMenuBarPixi extends Container {
+
+    private readonly menus: Menu[];
+
+    private readonly background: Graphics = new Graphics();
+
+    /**
+     * Catches the clicks outside of the open menu to close it.
+     */
+    private readonly closeArea: Container = new Container();
+
+    private readonly titles: Container[] = [];
+
+    private openMenuIndex: number | null = null;
+
+    private openMenu: Container | null = null;
+
+    private createMenuItem(item: MenuItem, width: number): Container {
+        const container = new Container();
+
+        const highlight = new Graphics()
+            .beginFill(MENU_HIGHLIGHT_COLOR)
+            .drawRect(0, 0, width, MENU_ITEM_HEIGHT_PX)
+            .endFill();
+
+        highlight.visible = false;
+
+        const label = createDialogText(item.label);
+        label.position.set(MENU_ITEM_PADDING_X_PX, 1);
+
+        const checkMark = createDialogText(item.isChecked?.() ? "✓" : "");
+        checkMark.position.set(3, 1);
+
+        const shortcut = createDialogText(item.shortcut ?? "");
+        shortcut.anchor.x = 1;
+        shortcut.position.set(width - MENU_ITEM_PADDING_X_PX / 2, 1);
+
+        container.addChild(highlight, checkMark, label, shortcut);
+
+        const texts = [label, checkMark, shortcut];
+
+        container.eventMode = "static";
+        container.hitArea = new Rectangle(0, 0, width, MENU_ITEM_HEIGHT_PX);
+
+        container.on("pointerover", () => {
+            highlight.visible = true;
+            texts.forEach(text => text.style.fill = 0xffffff);
+        });
+
+        container.on("pointerout", () => {
+            highlight.visible = false;
+            texts.forEach(text => text.style.fill = 0x000000);
+        });
+
+        container.on("pointertap", () => {
+            this.closeMenu();
+            item.onSelect();
+        });
+
+        return container;
+    }
+
+    private showMenu(index: number) {
+        this.closeMenu();
+
+        const menu = this.menus[index];
+        const title = this.titles[index];
+
+        this.openMenuIndex = index;
+
+        // Measure the labels first, so all the items have the width of the widest one.
+        const width = Math.ceil(Math.max(...menu.items.map(item => {
+            if (item === null) return 0;
+            const label = createDialogText(item.label);
+            const shortcut = createDialogText(item.shortcut ?? "");
+            const itemWidth = label.width + (item.shortcut === undefined ? 0 : MENU_SHORTCUT_GAP_PX + shortcut.width);
+            label.destroy();
+            shortcut.destroy();
+            return itemWidth;
+        }))) + MENU_ITEM_PADDING_X_PX * 2;
+
+        const container = new Container();
+        const items = new Container();
+
+        let y = 1;
+
+        for (const item of menu.items) {
+            if (item === null) {
+                const separator = new Graphics()
+                    .beginFill(MENU_BORDER_COLOR)
+                    .drawRect(2, y + Math.floor(MENU_SEPARATOR_HEIGHT_PX / 2), width - 4, 1)
+                    .endFill();
+                items.addChild(separator);
+                y += MENU_SEPARATOR_HEIGHT_PX;
+                continue;
+            }
+
+            const menuItem = this.createMenuItem(item, width);
+            menuItem.position.set(1, y);
+            items.addChild(menuItem);
+            y += MENU_ITEM_HEIGHT_PX;
+        }
+
+        const background = new Graphics()
+            .lineStyle(1, MENU_BORDER_COLOR, 1, 0)
+            .beginFill(MENU_COLOR)
+            .drawRect(0, 0, width + 2, y + 1)
+            .endFill();
+
+        container.addChild(background, items);
+
+        container.position.set(title.x, MENU_BAR_HEIGHT_PX);
+
+        this.openMenu = container;
+        this.closeArea.visible = true;
+
+        this.addChild(container);
+    }
+
+    private closeMenu() {
+        this.openMenuIndex = null;
+        this.closeArea.visible = false;
+
+        if (this.openMenu === null) return;
+
+        this.removeChild(this.openMenu);
+        this.openMenu.destroy({ children: true });
+        this.openMenu = null;
+    }
+
+    /**
+     * Sizes the bar to the width of the window.
+     * @param width - Width of the window in pixels.
+     * @param height - Height of the window in pixels. Clicks anywhere in it close the open menu.
+     */
+    public resize(width: number, height: number) {
+        this.background
+            .clear()
+            .beginFill(MENU_BAR_COLOR)
+            .drawRect(0, 0, width, MENU_BAR_HEIGHT_PX)
+            .endFill();
+
+        this.closeArea.hitArea = new Rectangle(0, 0, width, height);
+    }
+
+    /**
+     * @param menus - Menus from left to right.
+     * @param width - Width of the window in pixels.
+     * @param height - Height of the window in pixels.
+     */
+    constructor(menus: Menu[], width: number, height: number) {
+        super();
+
+        this.menus = menus;
+
+        this.closeArea.eventMode = "static";
+        this.closeArea.visible = false;
+        this.closeArea.on("pointertap", () => this.closeMenu());
+
+        this.addChild(this.closeArea, this.background);
+
+        let x = 0;
+
+        for (const [index, menu] of menus.entries()) {
+            const title = new Container();
+
+            const label = createDialogText(menu.label);
+            label.position.set(MENU_TITLE_PADDING_X_PX, Math.round((MENU_BAR_HEIGHT_PX - label.height) / 2));
+
+            title.addChild(label);
+            title.position.x = x;
+
+            const titleWidth = Math.ceil(label.width) + MENU_TITLE_PADDING_X_PX * 2;
+
+            title.eventMode = "static";
+            title.hitArea = new Rectangle(0, 0, titleWidth, MENU_BAR_HEIGHT_PX);
+
+            title.on("pointertap", () => {
+                if (this.openMenuIndex === index) {
+                    this.closeMenu();
+                } else {
+                    this.showMenu(index);
+                }
+            });
+
+            // Like in Windows, moving over another title switches the open menu.
+            title.on("pointerover", () => {
+                if (this.openMenuIndex !== null && this.openMenuIndex !== index) {
+                    this.showMenu(index);
+                }
+            });
+
+            this.titles.push(title);
+
+            this.addChild(title);
+
+            x += titleWidth;
+        }
+
+        this.resize(width, height);
+    }
+}
@@ -0,0 +1,224 @@
+import { Container, FederatedPointerEvent, Graphics, Rectangle } from "pixi.js";
+import { MinesweeperBoard } from "../core/minesweeper-board";
+import { Point } from "../lib/grid";
+import { Signal } from "../lib/signal";
+
+/**
+ * Largest width or height of the minimap in pixels.
+ */
+const MINIMAP_MAX_SIZE_PX = 48;
+
+const CLOSED_COLOR = 0x808080;
+const OPEN_COLOR = 0xc0c0c0;
+const BORDER_COLOR = 0x000000;
+const VIEW_COLOR = 0xff0000;
+
+/**
+ * Mixes two colors channel by channel.
+ * @param t - 0 for the first color, 1 for the second.
+ */
+function lerpColor(a: number, b: number, t: number): number {
+    const channel = (shift: number) => {
+        const from = (a >> shift) & 0xff;
+        const to = (b >> shift) & 0xff;
+        return Math.round(from + (to - from) * t) << shift;
+    };
+
+    return channel(16) | channel(8) | channel(0);
+}
+
+/**
+ * An overview of a board too big for the camera. Every pixel is a block of tiles,
+ * lighter the more of them are open, and a rectangle shows the part the camera sees.
+ * Clicking or dragging on it moves the camera.
+ */
+export class MinesweeperMinimapPixi extends Container {
+
+    private readonly board: MinesweeperBoard;
+
+    /**
+     * Width and height of the block of tiles shown by a pixel.
+     */
+    private readonly blockSizeTiles: number;
+
+    private readonly columns: number;
+
+    private readonly rows: number;
+
+    /**
+     * Open tiles of every block in row-major order.
+     */
+    private readonly openCounts: number[];
+
+    private readonly dirtyBlocks: Set<number> = new Set();
+
+    private isRedrawScheduled: boolean = false;
+
+    private readonly blocks: Graphics = new Graphics();
+
+    private readonly viewRect: Graphics = new Graphics();
+
+    private isDragging: boolean = false;
+
+    /**
+     * This signal is emitted with the tile to center the camera on when the minimap is clicked or dragged.
+     */
+    readonly pannedSignal: Signal<Point> = new Signal();
+
+    public get widthPx(): number {
+        return this.columns + 2;
+    }
+
+    public get heightPx(): number {
+        return this.rows + 2;
+    }
+
+    /**
+     * Shows the part of the board the camera sees.
+     * @param view - The visible region in tiles.
+     */
+    public set view(view: Rectangle) {
+        const left = Math.max(0, view.left / this.blockSizeTiles);
+        const top = Math.max(0, view.top / this.blockSizeTiles);
+        const right = Math.min(this.columns, view.right / this.blockSizeTiles);
+        const bottom = Math.min(this.rows, view.bottom / this.blockSizeTiles);
+
+        this.viewRect
+            .clear()
+            .lineStyle(1, VIEW_COLOR, 1, 0)
+            .drawRect(1 + Math.floor(left), 1 + Math.floor(top), Math.max(1, Math.ceil(right) - Math.floor(left)), Math.max(1, Math.ceil(bottom) - Math.floor(top)));
+    }
+
+    private countOpenTiles(index: number): number {
+        const left = (index % this.columns) * this.blockSizeTiles;
+        const top = Math.floor(index / this.columns) * this.blockSizeTiles;
+        const right = Math.min(this.board.width, left + this.blockSizeTiles);
+        const bottom = Math.min(this.board.height, top + this.blockSizeTiles);
+
+        let count = 0;
+
+        for (let y = top; y < bottom; y++) {
+            for (let x = left; x < right; x++) {
+                if (this.board.getTileState({ x, y }).isOpen) count++;
+            }
+        }
+
+        return count;
+    }
+
+    private getBlockTileCount(index: number): number {
+        const left = (index % this.columns) * this.blockSizeTiles;
+        const top = Math.floor(index / this.columns) * this.blockSizeTiles;
+        return (Math.min(this.board.width, left + this.blockSizeTiles) - left) * (Math.min(this.board.height, top + this.blockSizeTiles) - top);
+    }
+
+    private onTilesChanged(points: readonly Point[]) {
+        for (const point of points) {
+            this.dirtyBlocks.add(Math.floor(point.x / this.blockSizeTiles) + Math.floor(point.y / this.blockSizeTiles) * this.columns);
+        }
+
+        this.scheduleRedraw();
+    }
+
+    /**
+     * Redraws once all the changes of the current action are applied.
+     */
+    private scheduleRedraw() {
+        if (this.isRedrawScheduled) return;
+
+        this.isRedrawScheduled = true;
+
+        queueMicrotask(() => {
+            this.isRedrawScheduled = false;
+
+            // The minimap could be replaced with the board before the microtask.
+            if (this.destroyed) return;
+
+            this.redraw();
+        });
+    }
+
+    private redraw() {
+        for (const index of this.dirtyBlocks) {
+            this.openCounts[index] = this.countOpenTiles(index);
+        }
+
+        this.dirtyBlocks.clear();
+
+        this.blocks
+            .clear()
+            .beginFill(BORDER_COLOR)
+            .drawRect(0, 0, this.widthPx, this.heightPx)
+            .endFill();
+
+        for (let index = 0; index < this.openCounts.length; index++) {
+            const color = lerpColor(CLOSED_COLOR, OPEN_COLOR, this.openCounts[index] / this.getBlockTileCount(index));
+
+            this.blocks
+                .beginFill(color)
+                .drawRect(1 + index % this.columns, 1 + Math.floor(index / this.columns), 1, 1)
+                .endFill();
+        }
+    }
+
+    private pan(event: FederatedPointerEvent) {
+        const { x, y } = event.getLocalPosition(this);
+
+        this.pannedSignal.emit({
+            x: (x - 1) * this.blockSizeTiles,
+            y: (y - 1) * this.blockSizeTiles,
+        });
+    }
+
+    public override destroy(options?: Parameters<Container["destroy"]>[0]) {
+        this.board.tilesChangedSignal.disconnect(this.onTilesChangedCallback);
+        this.pannedSignal.clear();
+        super.destroy(options);
+    }
+
+    private readonly onTilesChangedCallback = (points: readonly Point[]) => this.onTilesChanged(points);
+
+    /**
+     * @param board - The board to show.
+     */
+    constructor(board: MinesweeperBoard) {
+        super();
+
+        this.board = board;
+
+        this.blockSizeTiles = Math.max(1, Math.ceil(Math.max(board.width, board.height) / (MINIMAP_MAX_SIZE_PX - 2)));
+
+        this.columns = Math.ceil(board.width / this.blockSizeTiles);
+        this.rows = Math.ceil(board.height / this.blockSizeTiles);
+
+        this.openCounts = new Array(this.columns * this.rows).fill(0);
+
+        for (let index = 0; index < this.openCounts.length; index++) {
+            this.dirtyBlocks.add(index);
+        }
+
+        this.addChild(this.blocks, this.viewRect);
+
+        this.redraw();
+
+        board.tilesChangedSignal.connect(this.onTilesChangedCallback);
+
+        this.eventMode = "static";
+        this.cursor = "pointer";
+        this.hitArea = new Rectangle(0, 0, this.widthPx, this.heightPx);
+
+        this.on("pointerdown", (event) => {
+            if (event.button !== 0) return;
+
+            this.isDragging = true;
+            this.pan(event);
+        });
+
+        this.on("globalpointermove", (event) => {
+            if (this.isDragging) this.pan(event);
+        });
+
+        this.on("pointerup", () => this.isDragging = false);
+        this.on("pointerupoutside", () => this.isDragging = false);
+    }
+}
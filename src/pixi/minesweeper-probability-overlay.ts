@@ -0,0 +1,101 @@
+import { Graphics, Rectangle } from "pixi.js";
+import { MinesweeperBoard } from "../core/minesweeper-board";
+import { Grid } from "../lib/grid";
+import { computeMineProbabilities } from "../core/mine-probability";
+import { TileLayout, getTilePosition, getTilesInRegion } from "./minesweeper-tile-layout";
+
+const OVERLAY_ALPHA = 0.45;
+
+/**
+ * Color of a probability: green for safe, yellow for 50/50, red for a bomb.
+ */
+function getProbabilityColor(probability: number): number {
+    const red = Math.round(255 * Math.min(1, probability * 2));
+    const green = Math.round(255 * Math.min(1, (1 - probability) * 2));
+    return (red << 16) | (green << 8);
+}
+
+/**
+ * Heatmap of the mine probability of every hidden tile.
+ */
+export class MinesweeperProbabilityOverlayPixi extends Graphics {
+
+    private readonly layout: TileLayout;
+
+    private probabilities: Grid<number> | null = null;
+
+    private _region: Rectangle | null = null;
+
+    /**
+     * Limits the drawing to a region of the board in pixels, so big boards only draw what the camera shows.
+     * `null` draws the whole board.
+     */
+    public set region(region: Rectangle | null) {
+        this._region = region;
+        this.draw();
+    }
+
+    /**
+     * Recomputes the probabilities for the current state of the board and redraws the overlay.
+     * @param board - The board to analyze.
+     */
+    public update(board: MinesweeperBoard) {
+        // It's called from the input handlers and microtasks, so a failure hides the overlay instead of breaking the game.
+        try {
+            this.probabilities = computeMineProbabilities(board);
+        } catch (error) {
+            console.error("Failed to compute the mine probabilities.", error);
+            this.probabilities = null;
+            this.draw();
+            return;
+        }
+
+        if (this.probabilities === null) {
+            console.warn("The numbers on the board contradict each other, can't compute the mine probabilities.");
+        }
+
+        this.draw();
+    }
+
+    private draw() {
+        this.clear();
+
+        const probabilities = this.probabilities;
+
+        // The overlay is updated when it's shown again.
+        if (probabilities === null || !this.visible) return;
+
+        const tiles = this._region === null ? null : getTilesInRegion(this.layout, this._region);
+
+        const left = tiles === null ? 0 : Math.max(0, tiles.left);
+        const top = tiles === null ? 0 : Math.max(0, tiles.top);
+        const right = tiles === null ? probabilities.width : Math.min(probabilities.width, tiles.right);
+        const bottom = tiles === null ? probabilities.height : Math.min(probabilities.height, tiles.bottom);
+
+        for (let y = top; y < bottom; y++) {
+            for (let x = left; x < right; x++) {
+                const probability = probabilities.get({ x, y });
+
+                // Open tile
+                if (isNaN(probability)) continue;
+
+                const position = getTilePosition(this.layout, { x, y });
+
+                this.beginFill(getProbabilityColor(probability), OVERLAY_ALPHA);
+                this.drawPolygon(this.layout.outline.map((coordinate, index) => coordinate + (index % 2 === 0 ? position.x : position.y)));
+                this.endFill();
+            }
+        }
+    }
+
+    /**
+     * @param layout - Where the tiles of the board are drawn.
+     */
+    constructor(layout: TileLayout) {
+        super();
+
+        this.layout = layout;
+
+        this.eventMode = "none";
+    }
+}
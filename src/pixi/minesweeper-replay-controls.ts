@@ -0,0 +1,86 @@
+import { Container } from "pixi.js";
+import { ReplayPlayer, ReplaySpeed } from "../core/replay-player";
+import { DIALOG_BUTTON_HEIGHT_PX, createDialogButton } from "./minesweeper-dialog";
+
+/**
+ * How far the seek buttons and the arrow keys move the replay.
+ */
+export const REPLAY_SEEK_STEP_MS = 5000;
+
+export const REPLAY_CONTROLS_HEIGHT_PX = DIALOG_BUTTON_HEIGHT_PX;
+
+const BUTTON_GAP_PX = 2;
+
+/**
+ * Wide enough for both "Play" and "Pause", so the buttons don't move when it changes.
+ */
+const PLAY_BUTTON_WIDTH_PX = 36;
+
+const NEXT_SPEEDS: Record<ReplaySpeed, ReplaySpeed> = { 1: 2, 2: 4, 4: 1 };
+
+/**
+ * Buttons to control a replay, for the players who don't know the keys or have no keyboard:
+ * back to the start, 5 seconds back, play or pause, 5 seconds forward and the speed.
+ */
+export class MinesweeperReplayControlsPixi extends Container {
+
+    private _player: ReplayPlayer | null = null;
+
+    /**
+     * Whether the replay was playing and its speed when the buttons were drawn, so they're only drawn again when it changes.
+     */
+    private drawnState: string = "";
+
+    /**
+     * The replay to control. `null` removes the buttons.
+     */
+    public set player(player: ReplayPlayer | null) {
+        this._player = player;
+        this.update();
+    }
+
+    /**
+     * Draws the buttons again if the replay was paused, resumed or sped up since, e.g. with the keys or because it ended.
+     */
+    public update() {
+        const player = this._player;
+
+        const state = player === null ? "" : `${player.isPlaying} ${player.speed}`;
+
+        if (state === this.drawnState) return;
+
+        this.drawnState = state;
+
+        this.removeChildren().forEach(child => child.destroy({ children: true }));
+
+        if (player === null) return;
+
+        const buttons = [
+            createDialogButton("|<", () => this.run(() => player.seek(0)), 0),
+            createDialogButton("<<", () => this.run(() => player.seek(player.timeMS - REPLAY_SEEK_STEP_MS)), 0),
+            createDialogButton(player.isPlaying ? "Pause" : "Play", () => this.run(() => {
+                if (player.isPlaying) {
+                    player.pause();
+                } else {
+                    player.play();
+                }
+            }), PLAY_BUTTON_WIDTH_PX),
+            createDialogButton(">>", () => this.run(() => player.seek(player.timeMS + REPLAY_SEEK_STEP_MS)), 0),
+            createDialogButton(`${player.speed}×`, () => this.run(() => player.speed = NEXT_SPEEDS[player.speed]), 0),
+        ];
+
+        let x = 0;
+
+        for (const button of buttons) {
+            button.x = x;
+            x += button.width + BUTTON_GAP_PX;
+        }
+
+        this.addChild(...buttons);
+    }
+
+    private run(command: () => void) {
+        command();
+        this.update();
+    }
+}
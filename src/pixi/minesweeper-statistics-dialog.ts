@@ -0,0 +1,95 @@
+import { BoardSettings } from "../board-settings";
+import { clearStatistics, getBoardStatistics, getStatisticsBoards } from "../statistics";
+import { get3BVPerSecond, getEfficiency } from "../core/game-statistics";
+import { MinesweeperBoardDialogPixi } from "./minesweeper-board-dialog";
+import { createDialogText } from "./minesweeper-dialog";
+import { formatTimeMS } from "../utils/format-time";
+
+const ROW_HEIGHT_PX = 11;
+const TABLE_WIDTH_PX = 130;
+
+function formatPercent(value: number): string {
+    return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Formats an average, or a dash when there's nothing to average.
+ */
+function formatAverage(sum: number, count: number, format: (value: number) => string): string {
+    return count === 0 ? "—" : format(sum / count);
+}
+
+/**
+ * Dialog with the statistics of every board.
+ */
+export class MinesweeperStatisticsDialogPixi extends MinesweeperBoardDialogPixi {
+
+    protected override getBoards(): BoardSettings[] {
+        return getStatisticsBoards();
+    }
+
+    protected override drawTable(board: BoardSettings) {
+        const statistics = getBoardStatistics(board);
+
+        const { played, won, lastGame } = statistics;
+
+        const rows: [string, string][] = [
+            ["Games played", `${played}`],
+            ["Games won", played === 0 ? "0" : `${won} (${formatPercent(won / played)})`],
+            ["Current streak", `${statistics.currentStreak}`],
+            ["Longest streak", `${statistics.longestStreak}`],
+            ["Average time", formatAverage(statistics.wonTimeMSSum, won, formatTimeMS)],
+            ["Average 3BV/s", formatAverage(statistics.won3BVPerSecondSum, won, value => value.toFixed(2))],
+            ["Average efficiency", formatAverage(statistics.wonEfficiencySum, won, formatPercent)],
+        ];
+
+        if (lastGame !== null) {
+            const bbbvPerSecond = get3BVPerSecond(lastGame);
+            const efficiency = getEfficiency(lastGame);
+
+            rows.push(
+                ["Last game", lastGame.isWon ? "Won" : "Lost"],
+                ["3BV", `${lastGame.bbbv}`],
+                ["Clicks", `${lastGame.clicks}`],
+                ["3BV/s", bbbvPerSecond === null ? "—" : bbbvPerSecond.toFixed(2)],
+                ["Efficiency", efficiency === null ? "—" : formatPercent(efficiency)],
+            );
+        }
+
+        for (const [i, [label, value]] of rows.entries()) {
+            const labelText = createDialogText(label);
+            labelText.y = i * ROW_HEIGHT_PX;
+
+            const valueText = createDialogText(value);
+            valueText.anchor.x = 1;
+            valueText.position.set(this.tableWidth, i * ROW_HEIGHT_PX);
+
+            this.table.addChild(labelText, valueText);
+        }
+
+        // Boards with and without the last game have a different number of rows.
+        this.layout();
+    }
+
+    private resetStatistics() {
+        if (!window.confirm("Reset all the statistics?")) return;
+
+        clearStatistics();
+
+        this.refresh();
+    }
+
+    /**
+     * @param windowWidth - Width of the game window in pixels.
+     * @param windowHeight - Height of the game window in pixels.
+     * @param board - The board to show first, usually the one being played.
+     */
+    constructor(windowWidth: number, windowHeight: number, board: BoardSettings) {
+        super(windowWidth, windowHeight, "Statistics", TABLE_WIDTH_PX);
+
+        this.addButton("Reset", () => this.resetStatistics());
+        this.addButton("OK", () => this.close());
+
+        this.refresh(board);
+    }
+}
@@ -0,0 +1,92 @@
+import { Container, Graphics, Text } from "pixi.js";
+import { createDialogText } from "./minesweeper-dialog";
+
+export const TEXT_FIELD_HEIGHT_PX = 12;
+
+/**
+ * A text field for the dialogs. Pixi has no text input, so the dialog forwards the keys to the focused field.
+ */
+export class MinesweeperTextFieldPixi extends Container {
+
+    private _value: string;
+
+    private _isFocused: boolean = false;
+
+    private readonly box: Graphics = new Graphics();
+
+    private readonly text: Text;
+
+    private readonly fieldWidth: number;
+
+    private readonly maxLength: number;
+
+    private readonly allowedCharacters: RegExp;
+
+    public get value(): string {
+        return this._value;
+    }
+
+    public set isFocused(isFocused: boolean) {
+        this._isFocused = isFocused;
+        this.updateDisplay();
+    }
+
+    private updateDisplay() {
+        this.box
+            .clear()
+            .lineStyle(1, this._isFocused ? 0x316ac5 : 0x7f9db9)
+            .beginFill(0xffffff)
+            .drawRect(0, 0, this.fieldWidth, TEXT_FIELD_HEIGHT_PX)
+            .endFill();
+
+        this.text.text = this._isFocused ? `${this._value}|` : this._value;
+    }
+
+    /**
+     * The allowed characters are typed in, `Backspace` deletes the last one.
+     * Keys pressed with `Ctrl` or `Meta` are left to the browser.
+     * @returns `true` if the key was handled.
+     */
+    public handleKeyDown(event: KeyboardEvent): boolean {
+        if (event.ctrlKey || event.metaKey) return false;
+
+        if (event.key === "Backspace") {
+            this._value = this._value.slice(0, -1);
+        } else if (this.allowedCharacters.test(event.key)) {
+            if (this._value.length >= this.maxLength) return true;
+            this._value += event.key;
+        } else {
+            return false;
+        }
+
+        this.updateDisplay();
+        return true;
+    }
+
+    /**
+     * @param value - The text the field starts with.
+     * @param width - Width of the field in pixels.
+     * @param maxLength - Most characters that can be typed in.
+     * @param allowedCharacters - Matches a single character that can be typed in, e.g. `/^[0-9]$/`.
+     * @param onFocus - Called when the field is clicked or tapped.
+     */
+    constructor(value: string, width: number, maxLength: number, allowedCharacters: RegExp, onFocus: () => void) {
+        super();
+
+        this._value = value;
+        this.fieldWidth = width;
+        this.maxLength = maxLength;
+        this.allowedCharacters = allowedCharacters;
+
+        this.text = createDialogText("");
+        this.text.position.set(2, 1);
+
+        this.addChild(this.box, this.text);
+
+        this.eventMode = "static";
+        this.cursor = "text";
+        this.on("pointertap", onFocus);
+
+        this.updateDisplay();
+    }
+}
@@ -0,0 +1,176 @@
+import { Assets, BaseImageResource, BaseTexture, Spritesheet } from "pixi.js";
+import { Theme } from "../theme";
+
+/**
+ * Changes the color of a pixel of a cell frame.
+ * @param frame - Name of the frame in the spritesheet, like `cell/open/3.png`.
+ * @param isBorder - Whether the pixel is on the grid line at the top or the left of an open cell.
+ * @param color - Color of the pixel in the classic spritesheet, as `0xRRGGBB`.
+ * @returns The color in the theme.
+ */
+type Recolor = (frame: string, isBorder: boolean, color: number) => number;
+
+// Colors of the classic spritesheet
+const RED = 0xff0000;
+const GRAY = 0x808080;
+const LIGHT_GRAY = 0xc0c0c0;
+const BLACK = 0x000000;
+const WHITE = 0xffffff;
+
+const DARK_GRAY = 0x404040;
+
+/**
+ * The colors of the numbers 1 to 8 in the classic spritesheet.
+ */
+const CLASSIC_NUMBER_COLORS = [0x0000ff, 0x008000, 0xff0000, 0x000080, 0x800000, 0x008080, 0x000000, 0x808080];
+
+/**
+ * Numbers from the Okabe-Ito palette, which stays distinct with red-green colorblindness.
+ * 2 and 3 become orange and reddish purple instead of green and red.
+ */
+const DEUTERANOPIA_NUMBER_COLORS = [0x0072b2, 0xe69f00, 0xcc79a7, 0x000080, 0xd55e00, 0x009e73, 0x000000, 0x808080];
+
+// Blue and yellow from the Okabe-Ito palette, which red-green colorblindness doesn't mix up with the grays.
+const DEUTERANOPIA_BLUE = 0x0072b2;
+const DEUTERANOPIA_YELLOW = 0xf0e442;
+
+const HIGH_CONTRAST_NUMBER_COLORS = [0x0000cc, 0x006400, 0xb00000, 0x000066, 0x660000, 0x005555, 0x000000, 0x404040];
+
+const MONOCHROME_NUMBER_COLORS = Array(8).fill(0x000000);
+
+/**
+ * @returns The number 1 to 8 of an open cell frame, or `null` for other frames.
+ */
+function getFrameNumber(frame: string): number | null {
+    const match = /^cell\/open\/([1-8])\.png$/.exec(frame);
+    return match === null ? null : Number(match[1]);
+}
+
+/**
+ * Recolors the digits of the numbered cells. The border of the cells is the same gray as the 8, so it's skipped.
+ */
+function recolorNumbers(numberColors: number[]): Recolor {
+    return (frame, isBorder, color) => {
+        const number = getFrameNumber(frame);
+
+        if (number === null || isBorder || color !== CLASSIC_NUMBER_COLORS[number - 1]) return color;
+
+        return numberColors[number - 1];
+    };
+}
+
+const recolorDeuteranopiaNumbers = recolorNumbers(DEUTERANOPIA_NUMBER_COLORS);
+
+const recolorHighContrastNumbers = recolorNumbers(HIGH_CONTRAST_NUMBER_COLORS);
+
+const recolorMonochromeNumbers = recolorNumbers(MONOCHROME_NUMBER_COLORS);
+
+const RECOLORS: Record<Exclude<Theme, "classic">, Recolor> = {
+    "deuteranopia": (frame, isBorder, color) => {
+        color = recolorDeuteranopiaNumbers(frame, isBorder, color);
+
+        if (isBorder || color !== RED) return color;
+
+        // The flag and the cross of a wrong flag turn blue. The background of the exploded mine turns yellow,
+        // so the black mine still shows on it.
+        return frame === "cell/open/mine_red.png" ? DEUTERANOPIA_YELLOW : DEUTERANOPIA_BLUE;
+    },
+
+    "high-contrast": (frame, isBorder, color) => {
+        color = recolorHighContrastNumbers(frame, isBorder, color);
+
+        if (frame.startsWith("cell/open/")) {
+            if (isBorder) return BLACK;
+            // The background of the exploded mine stays red.
+            return color === LIGHT_GRAY ? WHITE : color;
+        }
+
+        // Darker shadows make the closed cells stand out from the open ones.
+        return color === GRAY ? DARK_GRAY : color;
+    },
+
+    // The numbers are all black, so only their digits tell them apart.
+    "monochrome": (frame, isBorder, color) => {
+        color = recolorMonochromeNumbers(frame, isBorder, color);
+
+        if (isBorder || color !== RED) return color;
+
+        // The flag turns black. The background of the exploded mine and the cross of a wrong flag
+        // turn white, so they show next to the black mine.
+        return frame === "cell/filled/flag.png" ? BLACK : WHITE;
+    },
+};
+
+const themeSpritesheets: Map<Theme, Promise<Spritesheet>> = new Map();
+
+/**
+ * Draws the classic spritesheet with the cells recolored.
+ * The other frames, like the face and the counters, keep their colors.
+ */
+async function createThemeSpritesheet(recolor: Recolor): Promise<Spritesheet> {
+    const classic: Spritesheet = Assets.get("spritesheet");
+
+    const resource = classic.baseTexture.resource as BaseImageResource;
+    const source = resource.source as CanvasImageSource;
+
+    const canvas = document.createElement("canvas");
+    canvas.width = classic.baseTexture.realWidth;
+    canvas.height = classic.baseTexture.realHeight;
+
+    const context = canvas.getContext("2d", { willReadFrequently: true });
+
+    if (context === null) throw new Error("Can't draw the theme spritesheet, 2D canvas isn't supported.");
+
+    context.drawImage(source, 0, 0);
+
+    const image = context.getImageData(0, 0, canvas.width, canvas.height);
+    const pixels = image.data;
+
+    for (const [name, data] of Object.entries(classic.data.frames)) {
+        if (!name.startsWith("cell/")) continue;
+
+        const { x, y, w, h } = data.frame;
+        const isOpen = name.startsWith("cell/open/");
+
+        for (let frameY = 0; frameY < h; frameY++) {
+            for (let frameX = 0; frameX < w; frameX++) {
+                const index = ((y + frameY) * canvas.width + x + frameX) * 4;
+
+                const color = (pixels[index] << 16) | (pixels[index + 1] << 8) | pixels[index + 2];
+
+                const isBorder = isOpen && (frameX === 0 || frameY === 0);
+
+                const newColor = recolor(name, isBorder, color);
+
+                pixels[index] = (newColor >> 16) & 0xff;
+                pixels[index + 1] = (newColor >> 8) & 0xff;
+                pixels[index + 2] = newColor & 0xff;
+            }
+        }
+    }
+
+    context.putImageData(image, 0, 0);
+
+    const spritesheet = new Spritesheet(BaseTexture.from(canvas), classic.data);
+
+    await spritesheet.parse();
+
+    return spritesheet;
+}
+
+/**
+ * Gets the spritesheet of a theme, creating it the first time. The classic one is the loaded asset.
+ * Only the `cell/` frames differ between the themes.
+ */
+export function loadThemeSpritesheet(theme: Theme): Promise<Spritesheet> {
+    if (theme === "classic") return Promise.resolve(Assets.get("spritesheet"));
+
+    let spritesheet = themeSpritesheets.get(theme);
+
+    if (spritesheet === undefined) {
+        spritesheet = createThemeSpritesheet(RECOLORS[theme]);
+        themeSpritesheets.set(theme, spritesheet);
+    }
+
+    return spritesheet;
+}
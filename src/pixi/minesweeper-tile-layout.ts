@@ -0,0 +1,139 @@
+import { Rectangle } from "pixi.js";
+import { TILE_SIZE_PX } from "..";
+import { TileShape } from "../core/topology";
+import { Point, hexTileAt } from "../lib/grid";
+
+/**
+ * Where the tiles of a shape are drawn. The sprite of every tile is {@link TILE_SIZE_PX} wide and high,
+ * hexagonal tiles are transparent around the hexagon.
+ */
+export type TileLayout = {
+    readonly shape: TileShape;
+
+    /**
+     * Horizontal distance between two tiles of a row.
+     */
+    readonly columnWidthPx: number;
+
+    /**
+     * Vertical distance between two rows. Hexagonal rows overlap by the points of the tiles.
+     */
+    readonly rowHeightPx: number;
+
+    /**
+     * How far right the odd rows are shifted.
+     */
+    readonly oddRowOffsetPx: number;
+
+    /**
+     * Corners of a tile relative to the top left corner of its sprite, clockwise as `[x0, y0, x1, y1, ...]`.
+     */
+    readonly outline: readonly number[];
+
+    /**
+     * Finds the tile at a position on the board.
+     * @returns The point of the tile. It can be out of bounds.
+     */
+    readonly getTileAt: (x: number, y: number) => Point;
+};
+
+/**
+ * Height of the points at the top and the bottom of a hexagonal tile.
+ */
+const HEX_POINT_HEIGHT_PX = TILE_SIZE_PX / 4;
+
+export const SQUARE_TILE_LAYOUT: TileLayout = {
+    shape: "square",
+    columnWidthPx: TILE_SIZE_PX,
+    rowHeightPx: TILE_SIZE_PX,
+    oddRowOffsetPx: 0,
+    outline: [0, 0, TILE_SIZE_PX, 0, TILE_SIZE_PX, TILE_SIZE_PX, 0, TILE_SIZE_PX],
+    getTileAt: (x, y) => ({
+        x: Math.floor(x / TILE_SIZE_PX),
+        y: Math.floor(y / TILE_SIZE_PX),
+    }),
+};
+
+/**
+ * The hexagons are squashed a little compared to regular ones, so they fit the square sprites of the pixel art.
+ * It doesn't change which hexagon a position is in, so the hit testing works the same.
+ */
+export const HEX_TILE_LAYOUT: TileLayout = {
+    shape: "hex",
+    columnWidthPx: TILE_SIZE_PX,
+    rowHeightPx: TILE_SIZE_PX - HEX_POINT_HEIGHT_PX,
+    oddRowOffsetPx: TILE_SIZE_PX / 2,
+    outline: [
+        TILE_SIZE_PX / 2, 0,
+        TILE_SIZE_PX, HEX_POINT_HEIGHT_PX,
+        TILE_SIZE_PX, TILE_SIZE_PX - HEX_POINT_HEIGHT_PX,
+        TILE_SIZE_PX / 2, TILE_SIZE_PX,
+        0, TILE_SIZE_PX - HEX_POINT_HEIGHT_PX,
+        0, HEX_POINT_HEIGHT_PX,
+    ],
+    getTileAt: (x, y) => hexTileAt(
+        (x - TILE_SIZE_PX / 2) / TILE_SIZE_PX,
+        (y - TILE_SIZE_PX / 2) / (TILE_SIZE_PX - HEX_POINT_HEIGHT_PX),
+    ),
+};
+
+export const TILE_LAYOUTS: Record<TileShape, TileLayout> = {
+    square: SQUARE_TILE_LAYOUT,
+    hex: HEX_TILE_LAYOUT,
+};
+
+/**
+ * @returns The top left corner of the sprite of a tile.
+ */
+export function getTilePosition(layout: TileLayout, point: Point): Point {
+    return {
+        x: point.x * layout.columnWidthPx + (point.y & 1) * layout.oddRowOffsetPx,
+        y: point.y * layout.rowHeightPx,
+    };
+}
+
+/**
+ * @returns The smallest rectangle around the outline of a tile, in pixels of the board.
+ */
+export function getTileBounds(layout: TileLayout, point: Point): Rectangle {
+    const { x, y } = getTilePosition(layout, point);
+
+    const xs = layout.outline.filter((_, i) => i % 2 === 0);
+    const ys = layout.outline.filter((_, i) => i % 2 === 1);
+
+    const left = x + Math.min(...xs);
+    const top = y + Math.min(...ys);
+
+    return new Rectangle(left, top, x + Math.max(...xs) - left, y + Math.max(...ys) - top);
+}
+
+/**
+ * @param width - Width of the board in tiles.
+ * @param height - Height of the board in tiles.
+ * @returns Width of the board in pixels.
+ */
+export function getBoardWidthPx(layout: TileLayout, width: number, height: number): number {
+    return width * layout.columnWidthPx + (height > 1 ? layout.oddRowOffsetPx : 0);
+}
+
+/**
+ * @param height - Height of the board in tiles.
+ * @returns Height of the board in pixels.
+ */
+export function getBoardHeightPx(layout: TileLayout, height: number): number {
+    return (height - 1) * layout.rowHeightPx + TILE_SIZE_PX;
+}
+
+/**
+ * Finds the tiles whose sprites overlap a region of the board.
+ * @param region - The region in pixels of the board.
+ * @returns The columns and the rows of the tiles, with `right` and `bottom` excluded. It can be out of bounds.
+ */
+export function getTilesInRegion(layout: TileLayout, region: Rectangle): Rectangle {
+    const left = Math.floor((region.left - layout.oddRowOffsetPx) / layout.columnWidthPx);
+    const top = Math.floor((region.top - (TILE_SIZE_PX - layout.rowHeightPx)) / layout.rowHeightPx);
+    const right = Math.ceil(region.right / layout.columnWidthPx);
+    const bottom = Math.ceil(region.bottom / layout.rowHeightPx);
+
+    return new Rectangle(left, top, right - left, bottom - top);
+}
@@ -1,11 +1,13 @@
-import { Assets, Sprite, Spritesheet } from "pixi.js";
+import { Assets, Sprite, Spritesheet, Texture } from "pixi.js";
 import { TileData, TileState } from "../core/minesweeper-board";
+import { assert } from "../utils/assert";
 
 export class MinesweeperTilePixi extends Sprite {
 
     /**
      * Array of texture paths for number tiles.
-     * Indexed by the amount of adjacent bombs.
+     * Indexed by the amount of adjacent bombs, up to the most neighbors a tile can have.
+     * Hexagonal tiles only have the textures up to 6.
      */
     static readonly numberTextures = ["empty", "1", "2", "3", "4", "5", "6", "7", "8"].map(number => `cell/open/${number}.png`);
 
@@ -20,6 +22,8 @@ export class MinesweeperTilePixi extends Sprite {
                     return this.highlight ? "cell/open/empty.png" : "cell/filled/empty.png";
                 case "flag":
                     return "cell/filled/flag.png";
+                case "question":
+                    return this.highlight ? "cell/open/maybe.png" : "cell/filled/maybe.png";
             }
         }
 
@@ -27,7 +31,8 @@ export class MinesweeperTilePixi extends Sprite {
         if (tileData.type === "empty") {
             switch (tileState.state) {
                 case "default":
-                    return MinesweeperTilePixi.numberTextures[tileData.bombNeighbors - 0];
+                case "question":
+                    return MinesweeperTilePixi.numberTextures[tileData.bombNeighbors];
                 case "flag":
                     return "cell/open/no_mine.png";
             }
@@ -37,11 +42,16 @@ export class MinesweeperTilePixi extends Sprite {
         return tileState.wasClicked ? "cell/open/mine_red.png" : "cell/open/mine.png";
     }
 
-    public updateTexture(tileData: TileData, tileState: TileState) {
+    /**
+     * @param textures - The `cell/` textures of the theme, square or hexagonal.
+     */
+    public updateTexture(tileData: TileData, tileState: TileState, textures: Record<string, Texture>) {
+        const key = this.getTextureKey(tileData, tileState);
+        const texture: Texture | undefined = textures[key];
 
-        const spritesheet: Spritesheet = Assets.get("spritesheet");
+        assert(texture !== undefined, `Missing tile texture: ${key}`);
 
-        this.texture = spritesheet.textures[this.getTextureKey(tileData, tileState)];
+        this.texture = texture;
     }
 
     constructor() {
@@ -0,0 +1,363 @@
+import { Container, FederatedPointerEvent, FederatedWheelEvent, Graphics, Rectangle } from "pixi.js";
+import { ChordingScheme } from "../board-settings";
+import { MinesweeperBoard } from "../core/minesweeper-board";
+import { Point } from "../lib/grid";
+import { clamp } from "../utils/clamp";
+import { MinesweeperBoardPixi } from "./minesweeper-board";
+import { MinesweeperMinimapPixi } from "./minesweeper-minimap";
+import { SQUARE_TILE_LAYOUT, TileLayout, getBoardHeightPx, getBoardWidthPx, getTileBounds } from "./minesweeper-tile-layout";
+
+/**
+ * Largest part of the board shown at once. Bigger boards are played through the camera.
+ */
+const MAX_VIEWPORT_WIDTH_TILES = 50;
+const MAX_VIEWPORT_HEIGHT_TILES = 30;
+
+/**
+ * The camera can't zoom out further, so it never has to render more than 16 times the tiles of the viewport.
+ */
+const MIN_CAMERA_SCALE = 0.25;
+const MAX_CAMERA_SCALE = 2;
+
+/**
+ * Zoom of a notch of the mouse wheel.
+ */
+const WHEEL_ZOOM_FACTOR = 1.25;
+
+const MINIMAP_MARGIN_PX = 2;
+
+const MIDDLE_BUTTON = 1;
+
+/**
+ * Shows the board through a camera when it's bigger than {@link MAX_VIEWPORT_WIDTH_TILES} by {@link MAX_VIEWPORT_HEIGHT_TILES} tiles.
+ * The camera is moved by dragging with the middle button or with the left button while Space is held,
+ * zoomed with the mouse wheel, and follows the keyboard cursor. A minimap in the corner shows where it is.
+ *
+ * Smaller boards are shown whole, and the viewport does nothing.
+ */
+export class MinesweeperViewportPixi extends Container {
+
+    private readonly chordingScheme: ChordingScheme;
+
+    private readonly content: Container = new Container();
+
+    private readonly contentMask: Graphics = new Graphics();
+
+    private boardPixi: MinesweeperBoardPixi | null = null;
+
+    private minimap: MinesweeperMinimapPixi | null = null;
+
+    private boardWidthTiles: number = 0;
+    private boardHeightTiles: number = 0;
+
+    private tileLayout: TileLayout = SQUARE_TILE_LAYOUT;
+
+    private get boardWidthPx(): number {
+        return getBoardWidthPx(this.tileLayout, this.boardWidthTiles, this.boardHeightTiles);
+    }
+
+    private get boardHeightPx(): number {
+        return getBoardHeightPx(this.tileLayout, this.boardHeightTiles);
+    }
+
+    private _viewportWidth: number = 0;
+    private _viewportHeight: number = 0;
+
+    /**
+     * Top left corner of the camera in pixels of the board.
+     */
+    private cameraX: number = 0;
+    private cameraY: number = 0;
+
+    private cameraScale: number = 1;
+
+    /**
+     * Pointer that drags the camera and its last position, `null` when the camera isn't dragged.
+     */
+    private pan: { pointerId: number, x: number, y: number } | null = null;
+
+    private isSpaceHeld: boolean = false;
+
+    /**
+     * Whether the camera was dragged since Space was pressed, so releasing Space doesn't open a tile.
+     */
+    private isSpaceUsedToPan: boolean = false;
+
+    /**
+     * Width of the viewport in pixels.
+     */
+    public get viewportWidth(): number {
+        return this._viewportWidth;
+    }
+
+    /**
+     * Height of the viewport in pixels.
+     */
+    public get viewportHeight(): number {
+        return this._viewportHeight;
+    }
+
+    /**
+     * Whether the board is too big for the viewport, so it's shown through the camera.
+     */
+    public get isCameraEnabled(): boolean {
+        return this.boardWidthTiles > MAX_VIEWPORT_WIDTH_TILES || this.boardHeightTiles > MAX_VIEWPORT_HEIGHT_TILES;
+    }
+
+    private get minCameraScale(): number {
+        const fitScale = Math.min(
+            this._viewportWidth / this.boardWidthPx,
+            this._viewportHeight / this.boardHeightPx,
+        );
+
+        return Math.min(1, Math.max(MIN_CAMERA_SCALE, fitScale));
+    }
+
+    /**
+     * Sizes the viewport for a board. The camera goes back to the top left corner.
+     * @param widthTiles - Width of the board in tiles.
+     * @param heightTiles - Height of the board in tiles.
+     * @param tileLayout - Where the tiles of the board are drawn.
+     */
+    public resize(widthTiles: number, heightTiles: number, tileLayout: TileLayout) {
+        this.boardWidthTiles = widthTiles;
+        this.boardHeightTiles = heightTiles;
+        this.tileLayout = tileLayout;
+
+        this._viewportWidth = Math.min(this.boardWidthPx, MAX_VIEWPORT_WIDTH_TILES * tileLayout.columnWidthPx);
+        this._viewportHeight = Math.min(this.boardHeightPx, MAX_VIEWPORT_HEIGHT_TILES * tileLayout.rowHeightPx);
+
+        this.contentMask
+            .clear()
+            .beginFill(0xffffff)
+            .drawRect(0, 0, this._viewportWidth, this._viewportHeight)
+            .endFill();
+
+        this.hitArea = new Rectangle(0, 0, this._viewportWidth, this._viewportHeight);
+
+        this.cameraX = 0;
+        this.cameraY = 0;
+        this.cameraScale = 1;
+
+        this.applyCamera();
+    }
+
+    /**
+     * Shows a board in the viewport, replacing the previous one. The camera stays where it was.
+     * @param board - The board shown by the board component, for the minimap.
+     * @param boardPixi - The board component.
+     */
+    public setBoard(board: MinesweeperBoard, boardPixi: MinesweeperBoardPixi) {
+        if (this.boardPixi !== null) {
+            this.content.removeChild(this.boardPixi);
+        }
+
+        if (this.minimap !== null) {
+            this.removeChild(this.minimap);
+            this.minimap.destroy({ children: true });
+            this.minimap = null;
+        }
+
+        this.boardPixi = boardPixi;
+
+        this.content.addChild(boardPixi);
+
+        if (this.isCameraEnabled) {
+            const minimap = new MinesweeperMinimapPixi(board);
+
+            minimap.position.set(
+                this._viewportWidth - minimap.widthPx - MINIMAP_MARGIN_PX,
+                this._viewportHeight - minimap.heightPx - MINIMAP_MARGIN_PX,
+            );
+
+            minimap.pannedSignal.connect((point) => this.centerOn(point));
+
+            this.minimap = minimap;
+
+            this.addChild(minimap);
+        }
+
+        this.applyCamera();
+    }
+
+    /**
+     * Clamps the camera to the board and shows the board through it.
+     * A board smaller than the camera at the current scale is centered.
+     */
+    private applyCamera() {
+        const viewWidth = this._viewportWidth / this.cameraScale;
+        const viewHeight = this._viewportHeight / this.cameraScale;
+
+        const boardWidthPx = this.boardWidthPx;
+        const boardHeightPx = this.boardHeightPx;
+
+        this.cameraX = viewWidth >= boardWidthPx ? (boardWidthPx - viewWidth) / 2 : clamp(this.cameraX, 0, boardWidthPx - viewWidth);
+        this.cameraY = viewHeight >= boardHeightPx ? (boardHeightPx - viewHeight) / 2 : clamp(this.cameraY, 0, boardHeightPx - viewHeight);
+
+        if (this.boardPixi === null) return;
+
+        // Whole pixels keep the pixel art crisp at the original scale.
+        this.boardPixi.scale.set(this.cameraScale);
+        this.boardPixi.position.set(
+            Math.round(-this.cameraX * this.cameraScale),
+            Math.round(-this.cameraY * this.cameraScale),
+        );
+
+        this.boardPixi.visibleRegion = new Rectangle(this.cameraX, this.cameraY, viewWidth, viewHeight);
+
+        if (this.minimap !== null) {
+            this.minimap.view = new Rectangle(
+                this.cameraX / this.tileLayout.columnWidthPx,
+                this.cameraY / this.tileLayout.rowHeightPx,
+                viewWidth / this.tileLayout.columnWidthPx,
+                viewHeight / this.tileLayout.rowHeightPx,
+            );
+        }
+    }
+
+    /**
+     * Moves the camera so a point of the board is in the middle.
+     * @param point - The point in tiles. It doesn't have to be a whole tile.
+     */
+    private centerOn(point: Point) {
+        this.cameraX = point.x * this.tileLayout.columnWidthPx - this._viewportWidth / this.cameraScale / 2;
+        this.cameraY = point.y * this.tileLayout.rowHeightPx - this._viewportHeight / this.cameraScale / 2;
+
+        this.applyCamera();
+    }
+
+    /**
+     * Moves the camera as little as needed to show a tile, for example the one under the keyboard cursor.
+     */
+    public scrollToTile(point: Point) {
+        if (!this.isCameraEnabled) return;
+
+        const viewWidth = this._viewportWidth / this.cameraScale;
+        const viewHeight = this._viewportHeight / this.cameraScale;
+
+        const bounds = getTileBounds(this.tileLayout, point);
+
+        this.cameraX = clamp(this.cameraX, bounds.right - viewWidth, bounds.left);
+        this.cameraY = clamp(this.cameraY, bounds.bottom - viewHeight, bounds.top);
+
+        this.applyCamera();
+    }
+
+    /**
+     * Zooms the camera, keeping a point of the viewport over the same point of the board.
+     * @param factor - Bigger than 1 zooms in.
+     * @param anchor - The point in pixels of the viewport.
+     */
+    private zoomAt(factor: number, anchor: Point) {
+        const scale = clamp(this.cameraScale * factor, this.minCameraScale, MAX_CAMERA_SCALE);
+
+        const boardX = this.cameraX + anchor.x / this.cameraScale;
+        const boardY = this.cameraY + anchor.y / this.cameraScale;
+
+        this.cameraScale = scale;
+        this.cameraX = boardX - anchor.x / scale;
+        this.cameraY = boardY - anchor.y / scale;
+
+        this.applyCamera();
+    }
+
+    /**
+     * Holding Space turns left drags into camera drags.
+     */
+    public pressSpace() {
+        if (this.isSpaceHeld) return;
+
+        this.isSpaceHeld = true;
+        this.isSpaceUsedToPan = false;
+    }
+
+    /**
+     * @returns Whether Space was pressed without dragging the camera, so it should open the tile under the keyboard cursor.
+     */
+    public releaseSpace(): boolean {
+        if (!this.isSpaceHeld) return false;
+
+        this.isSpaceHeld = false;
+
+        return !this.isSpaceUsedToPan;
+    }
+
+    private canStartPan(event: FederatedPointerEvent): boolean {
+        if (!this.isCameraEnabled || this.pan !== null || event.pointerType !== "mouse") return false;
+
+        // The middle button chords in that scheme.
+        if (event.button === MIDDLE_BUTTON) return this.chordingScheme !== "middle";
+
+        return event.button === 0 && this.isSpaceHeld;
+    }
+
+    private readonly onPointerDownCapture = (event: FederatedPointerEvent) => {
+        if (!this.canStartPan(event)) return;
+
+        // The board doesn't see the press, so it doesn't open or chord.
+        event.stopPropagation();
+
+        this.pan = { pointerId: event.pointerId, x: event.global.x, y: event.global.y };
+        this.isSpaceUsedToPan = this.isSpaceHeld;
+        this.cursor = "grabbing";
+    };
+
+    private readonly onGlobalPointerMove = (event: FederatedPointerEvent) => {
+        if (this.pan === null || event.pointerId !== this.pan.pointerId) return;
+
+        // The window is scaled by its owner, so the movement is measured in the viewport.
+        const scale = this.worldTransform.a * this.cameraScale;
+
+        this.cameraX -= (event.global.x - this.pan.x) / scale;
+        this.cameraY -= (event.global.y - this.pan.y) / scale;
+
+        this.pan.x = event.global.x;
+        this.pan.y = event.global.y;
+
+        this.applyCamera();
+    };
+
+    private readonly onPointerCapture = (event: FederatedPointerEvent) => {
+        if (this.pan === null || event.pointerId !== this.pan.pointerId) return;
+
+        // Moves and releases of the drag aren't clicks on the board either.
+        event.stopPropagation();
+    };
+
+    private readonly onPointerUp = (event: FederatedPointerEvent) => {
+        if (this.pan === null || event.pointerId !== this.pan.pointerId) return;
+
+        event.stopPropagation();
+
+        this.pan = null;
+        this.cursor = "default";
+    };
+
+    private readonly onWheel = (event: FederatedWheelEvent) => {
+        if (!this.isCameraEnabled || event.deltaY === 0) return;
+
+        this.zoomAt(event.deltaY < 0 ? WHEEL_ZOOM_FACTOR : 1 / WHEEL_ZOOM_FACTOR, event.getLocalPosition(this));
+    };
+
+    /**
+     * @param chordingScheme - The middle button pans the camera, unless it chords.
+     */
+    constructor(chordingScheme: ChordingScheme) {
+        super();
+
+        this.chordingScheme = chordingScheme;
+
+        this.content.mask = this.contentMask;
+
+        this.addChild(this.content, this.contentMask);
+
+        this.eventMode = "static";
+
+        this.on("pointerdowncapture", this.onPointerDownCapture);
+        this.on("pointermovecapture", this.onPointerCapture);
+        this.on("pointerupcapture", this.onPointerUp);
+        this.on("pointerupoutside", this.onPointerUp);
+        this.on("globalpointermove", this.onGlobalPointerMove);
+        this.on("wheel", this.onWheel);
+    }
+}
@@ -0,0 +1,289 @@
+import { Container } from "pixi.js";
+import { MENU_BAR_HEIGHT_PX } from "..";
+import { BEGINNER_SETTINGS, BoardSettings, EXPERT_SETTINGS, INTERMEDIATE_SETTINGS, getBoardSettingsDifficulty, isSameBoardSettings, setUrlParamsBoardSettings, setUrlParamsMarks } from "../board-settings";
+import { Menu, MinesweeperMenuBarPixi } from "./minesweeper-menu-bar";
+import { MinesweeperDialogPixi, createDialogText } from "./minesweeper-dialog";
+import { GenerateOptions } from "../core/minesweeper-board";
+import { InputOptions } from "./minesweeper-board";
+import { MinesweeperCustomBoardDialogPixi } from "./minesweeper-custom-board-dialog";
+import { MinesweeperPixi } from "./minesweeper";
+import { Replay } from "../core/replay";
+import { SavedGame } from "../save-game";
+import { Signal } from "../lib/signal";
+import { MAX_ZOOM, MIN_ZOOM, Zoom, getFitZoom, saveZoom } from "../zoom";
+import { clamp } from "../utils/clamp";
+import { THEMES, Theme, saveTheme } from "../theme";
+import { loadThemeSpritesheet } from "./minesweeper-theme";
+import { chooseReplayFile } from "../replay-file";
+
+const THEME_LABELS: Record<Theme, string> = {
+    "classic": "Classic",
+    "deuteranopia": "Colorblind (Deuteranopia)",
+    "high-contrast": "High Contrast",
+    "monochrome": "Monochrome",
+};
+
+/**
+ * The "About Minesweeper" dialog.
+ */
+class AboutDialogPixi extends MinesweeperDialogPixi {
+    constructor(windowWidth: number, windowHeight: number) {
+        super(windowWidth, windowHeight, "About Minesweeper");
+
+        this.content.addChild(createDialogText("Clone of Windows XP Minesweeper\nbuilt with PixiJS."));
+
+        this.addButton("OK", () => this.close());
+
+        this.layout();
+    }
+}
+
+/**
+ * The game with the menu bar above it.
+ * Changing the difficulty in the menu resizes the game, so the size of the window changes.
+ * The window doesn't scale itself, the owner scales it by {@link MinesweeperWindowPixi.pixelScale}.
+ */
+export class MinesweeperWindowPixi extends Container {
+
+    private boardSettings: BoardSettings;
+
+    private readonly minesweeper: MinesweeperPixi;
+
+    private readonly menuBar: MinesweeperMenuBarPixi;
+
+    private _zoom: Zoom;
+
+    private _theme: Theme;
+
+    /**
+     * This signal is emitted when the size or the zoom of the window changes.
+     */
+    readonly resizedSignal: Signal<void> = new Signal();
+
+    public get zoom(): Zoom {
+        return this._zoom;
+    }
+
+    /**
+     * Changes the zoom and remembers it for the next visit.
+     */
+    public set zoom(zoom: Zoom) {
+        this._zoom = zoom;
+        saveZoom(zoom);
+        this.resizedSignal.emit();
+    }
+
+    /**
+     * Scale to render the window at. Changes with the size of the browser window when the zoom is `"fit"`.
+     */
+    public get pixelScale(): number {
+        return this._zoom === "fit" ? getFitZoom(this.windowWidth, this.windowHeight) : this._zoom;
+    }
+
+    /**
+     * Theme of the tiles. The spritesheet of a new theme is loaded in the background.
+     */
+    public get theme(): Theme {
+        return this._theme;
+    }
+
+    /**
+     * Changes the theme of the tiles and remembers it for the next visit.
+     */
+    public set theme(theme: Theme) {
+        this._theme = theme;
+        saveTheme(theme);
+        this.applyTheme(theme);
+    }
+
+    private applyTheme(theme: Theme) {
+        loadThemeSpritesheet(theme).then((spritesheet) => {
+            // Another theme could be picked while this one was loading.
+            if (this._theme === theme) this.minesweeper.tileSpritesheet = spritesheet;
+        }).catch((error) => {
+            console.error(`Failed to load the ${theme} theme.`, error);
+        });
+    }
+
+    public get windowWidth(): number {
+        return this.minesweeper.windowWidth;
+    }
+
+    public get windowHeight(): number {
+        return MENU_BAR_HEIGHT_PX + this.minesweeper.windowHeight;
+    }
+
+    /**
+     * Starts a new game on a board with different settings.
+     */
+    private changeBoardSettings(settings: BoardSettings) {
+        this.boardSettings = settings;
+
+        setUrlParamsBoardSettings(settings);
+
+        this.minesweeper.resize(settings.width, settings.height, settings.bombs);
+    }
+
+    private zoomBy(step: number) {
+        this.zoom = clamp(this.pixelScale + step, MIN_ZOOM, MAX_ZOOM);
+    }
+
+    /**
+     * `Ctrl +` and `Ctrl -` zoom in and out, `Ctrl 0` fits the browser window.
+     */
+    private readonly onKeyDown = (event: KeyboardEvent) => {
+        if (!event.ctrlKey && !event.metaKey) return;
+
+        switch (event.key) {
+            case "+":
+            case "=":
+                this.zoomBy(1);
+                break;
+            case "-":
+                this.zoomBy(-1);
+                break;
+            case "0":
+                this.zoom = "fit";
+                break;
+            default:
+                return;
+        }
+
+        // Browsers zoom the page with the same keys.
+        event.preventDefault();
+    };
+
+    private toggleMarks() {
+        this.minesweeper.marksEnabled = !this.minesweeper.marksEnabled;
+
+        setUrlParamsMarks(this.minesweeper.marksEnabled);
+    }
+
+    private showCustomBoardDialog() {
+        const dialog = new MinesweeperCustomBoardDialogPixi(this.minesweeper.windowWidth, this.minesweeper.windowHeight, this.boardSettings);
+
+        dialog.submittedSignal.connect((settings) => this.changeBoardSettings(settings));
+
+        this.minesweeper.showDialog(dialog);
+    }
+
+    /**
+     * Browsers only let a page close its window if a script opened it.
+     */
+    private exit() {
+        window.close();
+
+        if (!window.closed) {
+            console.info("The browser doesn't allow closing this window. Close the tab instead.");
+        }
+    }
+
+    private createMenus(): Menu[] {
+        const difficultyItem = (label: string, settings: BoardSettings) => ({
+            label,
+            isChecked: () => isSameBoardSettings(this.boardSettings, settings),
+            onSelect: () => this.changeBoardSettings(settings),
+        });
+
+        return [
+            {
+                label: "Game",
+                items: [
+                    { label: "New", shortcut: "F2", onSelect: () => this.minesweeper.newGame() },
+                    null,
+                    difficultyItem("Beginner", BEGINNER_SETTINGS),
+                    difficultyItem("Intermediate", INTERMEDIATE_SETTINGS),
+                    difficultyItem("Expert", EXPERT_SETTINGS),
+                    {
+                        label: "Custom…",
+                        isChecked: () => getBoardSettingsDifficulty(this.boardSettings) === "custom",
+                        onSelect: () => this.showCustomBoardDialog(),
+                    },
+                    null,
+                    { label: "Marks (?)", isChecked: () => this.minesweeper.marksEnabled, onSelect: () => this.toggleMarks() },
+                    null,
+                    { label: "Best Times…", shortcut: "B", onSelect: () => this.minesweeper.showHighScores() },
+                    { label: "Statistics…", shortcut: "T", onSelect: () => this.minesweeper.showStatistics() },
+                    null,
+                    { label: "Open Replay…", onSelect: () => chooseReplayFile() },
+                    null,
+                    { label: "Exit", onSelect: () => this.exit() },
+                ],
+            },
+            {
+                label: "View",
+                items: [
+                    { label: "Zoom In", shortcut: "Ctrl++", onSelect: () => this.zoomBy(1) },
+                    { label: "Zoom Out", shortcut: "Ctrl+-", onSelect: () => this.zoomBy(-1) },
+                    null,
+                    ...Array.from({ length: MAX_ZOOM - MIN_ZOOM + 1 }, (_, index) => {
+                        const zoom = MIN_ZOOM + index;
+                        return { label: `${zoom}×`, isChecked: () => this._zoom === zoom, onSelect: () => this.zoom = zoom };
+                    }),
+                    { label: "Fit Window", shortcut: "Ctrl+0", isChecked: () => this._zoom === "fit", onSelect: () => this.zoom = "fit" },
+                    null,
+                    ...THEMES.map(theme => ({ label: THEME_LABELS[theme], isChecked: () => this._theme === theme, onSelect: () => this.theme = theme })),
+                ],
+            },
+            {
+                label: "Help",
+                items: [
+                    {
+                        label: "About Minesweeper…",
+                        onSelect: () => this.minesweeper.showDialog(new AboutDialogPixi(this.minesweeper.windowWidth, this.minesweeper.windowHeight)),
+                    },
+                ],
+            },
+        ];
+    }
+
+    /**
+     * Plays a replay back instead of the game. The replay should have the same size as the board.
+     */
+    public playReplay(replay: Replay) {
+        this.minesweeper.playReplay(replay);
+    }
+
+    public override destroy(options?: Parameters<Container["destroy"]>[0]) {
+        window.removeEventListener("keydown", this.onKeyDown);
+        this.resizedSignal.clear();
+        super.destroy(options);
+    }
+
+    /**
+     * @param boardSettings - Settings of the first board.
+     * @param generateOptions - Options for generating new boards.
+     * @param savedGame - Game to resume instead of starting a new one.
+     * @param isRanked - Whether hints, undo and mine probabilities are disabled.
+     * @param inputOptions - How the board is played with the mouse and touches.
+     * @param zoom - Zoom to start with.
+     * @param theme - Theme of the tiles to start with.
+     */
+    constructor(boardSettings: BoardSettings, generateOptions: GenerateOptions, savedGame: SavedGame | null, isRanked: boolean, inputOptions: InputOptions, zoom: Zoom, theme: Theme) {
+        super();
+
+        this._zoom = zoom;
+        this._theme = theme;
+
+        this.boardSettings = boardSettings;
+
+        this.minesweeper = new MinesweeperPixi(boardSettings.width, boardSettings.height, boardSettings.bombs, generateOptions, savedGame, isRanked, inputOptions);
+
+        this.minesweeper.position.y = MENU_BAR_HEIGHT_PX;
+
+        this.addChild(this.minesweeper);
+
+        this.menuBar = new MinesweeperMenuBarPixi(this.createMenus(), this.windowWidth, this.windowHeight);
+
+        this.addChild(this.menuBar);
+
+        this.minesweeper.resizedSignal.connect(() => {
+            this.menuBar.resize(this.windowWidth, this.windowHeight);
+            this.resizedSignal.emit();
+        });
+
+        this.applyTheme(theme);
+
+        window.addEventListener("keydown", this.onKeyDown);
+    }
+}
@@ -1,67 +1,827 @@
-import { Assets, Container, NineSlicePlane, Spritesheet } from "pixi.js";
-import { BOARD_PADDING_PX, HEADER_BOARD_GAP_PX, HEADER_HEIGHT_PX, HEADER_PADDING_PX, NUMBER_DISPLAY_CELL_WIDTH_PX, NUMBER_DISPLAY_PADDING_PX, TILE_SIZE_PX, WINDOW_PADDING_X_PX, WINDOW_PADDING_Y_PX } from "..";
+import { Assets, Container, NineSlicePlane, Spritesheet, Ticker } from "pixi.js";
+import { BOARD_PADDING_PX, FLAG_MODE_BUTTON_SIZE_PX, HEADER_BOARD_GAP_PX, HEADER_HEIGHT_PX, HEADER_PADDING_PX, NUMBER_DISPLAY_CELL_WIDTH_PX, NUMBER_DISPLAY_PADDING_PX, WINDOW_PADDING_X_PX, WINDOW_PADDING_Y_PX } from "..";
 import { Stopwatch } from "../lib/stopwatch";
-import { BoardState, MinesweeperBoard } from "../core/minesweeper-board";
-import { MinesweeperBoardPixi } from "./minesweeper-board";
+import { BoardState, GenerateOptions, MinesweeperBoard } from "../core/minesweeper-board";
+import { InputOptions, MinesweeperBoardPixi } from "./minesweeper-board";
 import { MinesweeperButtonPixi } from "./minesweeper-button";
 import { MinesweeperNumberDisplayPixi } from "./minesweeper-number-display";
+import { SavedGame, canSaveGame, clearSavedGame, saveGame } from "../save-game";
+import { Replay, ReplayRecorder } from "../core/replay";
+import { ReplayPlayer, ReplaySpeed } from "../core/replay-player";
+import { downloadReplay } from "../replay-file";
+import { findDeductions } from "../core/minesweeper-solver";
+import { BoardSettings, DEFAULT_LONG_PRESS_MS } from "../board-settings";
+import { DEFAULT_HIGH_SCORE_NAME, addHighScore, getLastHighScoreName, isHighScore } from "../high-scores";
+import { MinesweeperDialogPixi, createDialogText } from "./minesweeper-dialog";
+import { MinesweeperHighScoresDialogPixi } from "./minesweeper-high-scores-dialog";
+import { MinesweeperHighScoreNameDialogPixi } from "./minesweeper-high-score-name-dialog";
+import { GameStatisticsTracker } from "../core/game-statistics";
+import { recordGameStatistics } from "../statistics";
+import { MinesweeperStatisticsDialogPixi } from "./minesweeper-statistics-dialog";
+import { Point } from "../lib/grid";
+import { MinesweeperFlagModeButtonPixi } from "./minesweeper-flag-mode-button";
+import { BoardMirror } from "../board-mirror";
+import { MinesweeperViewportPixi } from "./minesweeper-viewport";
+import { FLAT_TOPOLOGY, Topology } from "../core/topology";
+import { TILE_LAYOUTS } from "./minesweeper-tile-layout";
+import { MinesweeperReplayControlsPixi, REPLAY_CONTROLS_HEIGHT_PX, REPLAY_SEEK_STEP_MS } from "./minesweeper-replay-controls";
+import { Signal } from "../lib/signal";
+
+/**
+ * How long the board has to stay unchanged before the game is saved, so a burst of clicks is saved once.
+ * The game is also saved when the page is closed.
+ */
+const SAVE_DELAY_MS = 1000;
+
+/**
+ * Keys that move the keyboard cursor, lowercase.
+ */
+const KEYBOARD_CURSOR_DIRECTIONS: Map<string, Point> = new Map([
+    ["arrowup", { x: 0, y: -1 }],
+    ["w", { x: 0, y: -1 }],
+    ["k", { x: 0, y: -1 }],
+    ["arrowdown", { x: 0, y: 1 }],
+    ["s", { x: 0, y: 1 }],
+    ["j", { x: 0, y: 1 }],
+    ["arrowleft", { x: -1, y: 0 }],
+    ["a", { x: -1, y: 0 }],
+    ["h", { x: -1, y: 0 }],
+    ["arrowright", { x: 1, y: 0 }],
+    ["d", { x: 1, y: 0 }],
+    ["l", { x: 1, y: 0 }],
+]);
+
+/**
+ * Tells the player that the game on a board too big for the local storage isn't saved.
+ */
+class AutosaveOffDialogPixi extends MinesweeperDialogPixi {
+    constructor(windowWidth: number, windowHeight: number) {
+        super(windowWidth, windowHeight, "Autosave Off");
+
+        this.content.addChild(createDialogText("This board is too big to be saved.\nThe game is lost when the page is closed."));
+
+        this.addButton("OK", () => this.close());
+
+        this.layout();
+    }
+}
 
 export class MinesweeperPixi extends Container {
 
     private boardWidthTiles: number;
     private boardHeightTiles: number;
     private bombCount: number;
+    private generateOptions: GenerateOptions;
+
+    /**
+     * Ranked games are played without hints, undo and mine probabilities.
+     */
+    private isRanked: boolean;
 
+    private isProbabilityOverlayVisible: boolean = false;
+
+    private windowBackground: NineSlicePlane;
+    private headerContainer: Container;
     private boardContainer: Container;
+    private boardBackground: NineSlicePlane;
+    private viewport: MinesweeperViewportPixi;
+    private headerBackground: NineSlicePlane;
+    private board: MinesweeperBoard | null = null;
     private boardPixi: MinesweeperBoardPixi | null = null;
 
+    private saveTimeout: ReturnType<typeof setTimeout> | null = null;
+
+    /**
+     * Records the current game. `null` while a replay is playing.
+     */
+    private recorder: ReplayRecorder | null = null;
+
+    /**
+     * Collects the statistics of the current game. `null` while a replay is playing.
+     */
+    private statisticsTracker: GameStatisticsTracker | null = null;
+
+    /**
+     * Plays a replay instead of the game. `null` when the player is playing.
+     */
+    private replayPlayer: ReplayPlayer | null = null;
+
+    private replayTicker: Ticker = new Ticker();
+
+    /**
+     * Buttons under the board while a replay is playing.
+     */
+    private replayControls: MinesweeperReplayControlsPixi = new MinesweeperReplayControlsPixi();
+
     private stopwatch: Stopwatch;
 
     private rightNumberDisplay: MinesweeperNumberDisplayPixi;
-    // private leftNumberDisplay: MinesweeperNumberDisplayPixi;
+    private leftNumberDisplay: MinesweeperNumberDisplayPixi;
     private button: MinesweeperButtonPixi;
+    private flagModeButton: MinesweeperFlagModeButtonPixi;
+    private inputOptions: InputOptions;
+
+    private _tileSpritesheet: Spritesheet = Assets.get("spritesheet");
+
+    /**
+     * DOM copy of the board for screen readers.
+     */
+    private boardMirror: BoardMirror = new BoardMirror(document.body);
+
+    /**
+     * The open dialog. The game can't be played while it's open.
+     */
+    private dialog: MinesweeperDialogPixi | null = null;
+
+    /**
+     * This signal is emitted when the size of the window changes, with the size of the board or when a replay starts or stops.
+     */
+    readonly resizedSignal: Signal<void> = new Signal();
+
+    /**
+     * Width of the game window in pixels.
+     */
+    public get windowWidth(): number {
+        return this.windowBackground.width;
+    }
+
+    /**
+     * Height of the game window in pixels.
+     */
+    public get windowHeight(): number {
+        return this.windowBackground.height;
+    }
+
+    /**
+     * How the tiles of the new boards are connected.
+     */
+    private get topology(): Topology {
+        return this.generateOptions.topology ?? FLAT_TOPOLOGY;
+    }
+
+    /**
+     * Whether the player can mark tiles with a question mark. Changes the current game and the next ones.
+     */
+    public get marksEnabled(): boolean {
+        return this.generateOptions.marks ?? false;
+    }
+
+    public set marksEnabled(marksEnabled: boolean) {
+        this.generateOptions = { ...this.generateOptions, marks: marksEnabled };
+
+        // A replay is played with the marks it was recorded with.
+        if (this.board !== null && this.replayPlayer === null) {
+            this.board.marksEnabled = marksEnabled;
+        }
+    }
+
+    /**
+     * Changes the theme of the tiles. Only the `cell/` textures of the spritesheet are used.
+     */
+    public set tileSpritesheet(spritesheet: Spritesheet) {
+        this._tileSpritesheet = spritesheet;
+
+        if (this.boardPixi !== null) {
+            this.boardPixi.spritesheet = spritesheet;
+        }
+    }
+
+    private get boardSettings(): BoardSettings {
+        return {
+            width: this.boardWidthTiles,
+            height: this.boardHeightTiles,
+            bombs: this.bombCount,
+            topology: this.topology.name,
+        };
+    }
 
     private onBoardStateChanged(newState: BoardState) {
         this.button.changeState(newState);
 
+        // The replay player shows its own time.
+        if (this.replayPlayer !== null) return;
+
         switch (newState) {
             case "not_started":
-            case "won":
             case "lost":
                 this.stopwatch.pause();
                 break;
+            case "won":
+                this.stopwatch.pause();
+                this.onWon();
+                break;
             case "active":
                 this.stopwatch.start();
                 break;
         }
     }
 
-    private setupBoard() {
+    /**
+     * Asks for the name of the player if the time gets into the high score table.
+     * Assisted games don't count.
+     */
+    private onWon() {
+        if (this.board === null || this.board.isAssisted) return;
+
+        const settings = this.boardSettings;
+        const timeMS = this.stopwatch.elapsedMS;
+
+        if (!isHighScore(settings, timeMS)) return;
+
+        const dialog = new MinesweeperHighScoreNameDialogPixi(this.windowWidth, this.windowHeight, getLastHighScoreName());
+
+        dialog.submittedSignal.connect((name) => {
+            addHighScore(settings, name.trim() || DEFAULT_HIGH_SCORE_NAME, timeMS);
+
+            // The dialog is still closing. The table isn't shown if it was closed to open another dialog.
+            queueMicrotask(() => {
+                if (this.dialog === null) this.showHighScores();
+            });
+        });
+
+        this.showDialog(dialog);
+    }
+
+    /**
+     * Opens a dialog over the game, closing the one that is already open.
+     */
+    public showDialog(dialog: MinesweeperDialogPixi) {
+        this.dialog?.close();
+
+        this.dialog = dialog;
+
+        dialog.closedSignal.connect(() => {
+            this.removeChild(dialog);
+            dialog.destroy({ children: true });
+
+            if (this.dialog === dialog) {
+                this.dialog = null;
+            }
+        });
+
+        this.addChild(dialog);
+    }
+
+    /**
+     * Opens the "Fastest Mine Sweepers" dialog on the table of the current board.
+     */
+    public showHighScores() {
+        this.showDialog(new MinesweeperHighScoresDialogPixi(this.windowWidth, this.windowHeight, this.boardSettings));
+    }
+
+    /**
+     * Opens the statistics dialog on the current board.
+     */
+    public showStatistics() {
+        this.showDialog(new MinesweeperStatisticsDialogPixi(this.windowWidth, this.windowHeight, this.boardSettings));
+    }
+
+    /**
+     * Saves the game to the local storage if it's in progress, otherwise removes the saved game.
+     */
+    private save() {
+        if (this.board === null || this.recorder === null) return;
+
+        if (this.board.boardState !== "active") {
+            clearSavedGame();
+            return;
+        }
+
+        // Nothing to save until the first tile is open.
+        if (!this.board.areBombsPlaced) return;
+
+        if (!canSaveGame(this.board.width, this.board.height)) return;
+
+        saveGame(this.board.toSnapshot(), this.stopwatch.elapsedMS, this.recorder.actions, this.statisticsTracker?.clicks ?? 0);
+    }
+
+    /**
+     * Saves the game {@link SAVE_DELAY_MS} after the last change. Every change restarts the delay.
+     */
+    private scheduleSave() {
+        this.cancelSave();
+
+        this.saveTimeout = setTimeout(() => {
+            this.saveTimeout = null;
+            this.save();
+        }, SAVE_DELAY_MS);
+    }
+
+    private cancelSave() {
+        if (this.saveTimeout === null) return;
+
+        clearTimeout(this.saveTimeout);
+        this.saveTimeout = null;
+    }
+
+    private readonly onPageHide = () => {
+        this.cancelSave();
+        this.save();
+    };
+
+    private readonly onKeyDown = (event: KeyboardEvent) => {
+        if (this.dialog !== null) {
+            if (this.dialog.handleKeyDown(event)) {
+                event.preventDefault();
+            }
+            return;
+        }
+
+        if (event.key === "F2") {
+            event.preventDefault();
+            this.newGame();
+            return;
+        }
+
+        if (event.key.toLowerCase() === "b" && !event.ctrlKey && !event.metaKey && !event.altKey) {
+            event.preventDefault();
+            this.showHighScores();
+            return;
+        }
+
+        if (event.key.toLowerCase() === "t" && !event.ctrlKey && !event.metaKey && !event.altKey) {
+            event.preventDefault();
+            this.showStatistics();
+            return;
+        }
+
+        if (event.key.toLowerCase() === "p" && !event.ctrlKey && !event.metaKey && !event.altKey) {
+            event.preventDefault();
+            this.toggleProbabilityOverlay();
+            return;
+        }
+
+        if (this.replayPlayer !== null) {
+            this.onReplayKeyDown(this.replayPlayer, event);
+            return;
+        }
+
+        if (this.board === null) return;
+
+        const key = event.key.toLowerCase();
+
+        if (event.ctrlKey || event.metaKey) {
+            this.onCommandKeyDown(this.board, key, event);
+            return;
+        }
+
+        if (event.altKey) return;
+
+        // `H` also moves the cursor, so hints need Shift.
+        if (key === "h" && event.shiftKey) {
+            event.preventDefault();
+            this.showHint();
+            return;
+        }
+
+        this.onCursorKeyDown(key, event);
+    };
+
+    private readonly onKeyUp = (event: KeyboardEvent) => {
+        if (event.key !== " " || !this.viewport.releaseSpace()) return;
+
+        this.boardPixi?.clickCursorTile();
+    };
+
+    private onCursorMoved() {
+        const cursorPoint = this.boardPixi?.cursorPoint ?? null;
+
+        if (cursorPoint === null) return;
+
+        this.viewport.scrollToTile(cursorPoint);
+        this.boardMirror.focusCell(cursorPoint);
+    }
+
+    /**
+     * Keyboard play: arrows, WASD or HJKL move the cursor, Space opens or chords the tile under it, F flags it.
+     */
+    private onCursorKeyDown(key: string, event: KeyboardEvent) {
+        if (this.boardPixi === null) return;
+
+        const direction = KEYBOARD_CURSOR_DIRECTIONS.get(key);
+
+        if (direction !== undefined) {
+            event.preventDefault();
+            this.boardPixi.moveCursor(direction.x, direction.y);
+            this.onCursorMoved();
+            return;
+        }
+
+        switch (key) {
+            case " ":
+                // On boards shown through the camera, holding Space drags the camera, so the tile is opened on release.
+                if (this.viewport.isCameraEnabled) {
+                    this.viewport.pressSpace();
+                } else {
+                    this.boardPixi.clickCursorTile();
+                }
+                break;
+            case "f":
+                this.boardPixi.changeCursorTileState();
+                break;
+            default:
+                return;
+        }
+
+        // Space would scroll the page.
+        event.preventDefault();
+    }
+
+    /**
+     * `Ctrl+S` exports the replay, `Ctrl+Z` undoes and `Ctrl+Y` or `Ctrl+Shift+Z` redoes.
+     */
+    private onCommandKeyDown(board: MinesweeperBoard, key: string, event: KeyboardEvent) {
+        if (key === "s") {
+            event.preventDefault();
+            this.exportReplay();
+            return;
+        }
+
+        const isUndo = key === "z" && !event.shiftKey;
+        const isRedo = key === "y" || (key === "z" && event.shiftKey);
+
+        if (!isUndo && !isRedo) return;
+
+        event.preventDefault();
+
+        if (this.isRanked) return;
+
+        if (isUndo) {
+            board.undo();
+        } else {
+            board.redo();
+        }
+    }
+
+    /**
+     * Space pauses or resumes the replay, 1, 2 and 4 change the speed,
+     * arrows move 5 seconds back or forward, Home moves to the start.
+     */
+    private onReplayKeyDown(player: ReplayPlayer, event: KeyboardEvent) {
+        switch (event.key) {
+            case " ":
+                if (player.isPlaying) {
+                    player.pause();
+                } else {
+                    player.play();
+                }
+                break;
+            case "1":
+            case "2":
+            case "4":
+                player.speed = parseInt(event.key) as ReplaySpeed;
+                break;
+            case "ArrowLeft":
+                player.seek(player.timeMS - REPLAY_SEEK_STEP_MS);
+                break;
+            case "ArrowRight":
+                player.seek(player.timeMS + REPLAY_SEEK_STEP_MS);
+                break;
+            case "Home":
+                player.seek(0);
+                break;
+            default:
+                return;
+        }
+
+        event.preventDefault();
+
+        this.replayControls.update();
+    }
+
+    private readonly onReplayTick = () => {
+        this.replayPlayer?.advance(this.replayTicker.deltaMS);
+    };
+
+    /**
+     * Shows or hides the mine probabilities. Looking at them makes the current game assisted.
+     */
+    private toggleProbabilityOverlay() {
+        if (this.isRanked) {
+            console.info("Mine probabilities are not available in ranked games.");
+            return;
+        }
+
+        this.isProbabilityOverlayVisible = !this.isProbabilityOverlayVisible;
+
+        this.updateProbabilityOverlay();
+    }
+
+    private updateProbabilityOverlay() {
+        if (this.board === null || this.boardPixi === null) return;
+
+        this.boardPixi.isProbabilityOverlayVisible = this.isProbabilityOverlayVisible;
+
+        // Replays are already recorded, so only the game of the player can become assisted.
+        if (this.isProbabilityOverlayVisible && this.replayPlayer === null) {
+            this.board.markAssisted();
+        }
+    }
+
+    /**
+     * Highlights a tile that is proven to be safe and counts the hint against the game.
+     * Flags can be wrong, so they're ignored.
+     */
+    private showHint() {
+        if (this.board === null || this.boardPixi === null) return;
+
+        if (this.isRanked) return;
+
+        if (this.board.boardState !== "active") return;
+
+        const { safe } = findDeductions(this.board, { trustFlags: false });
+
+        const hint = safe.find(point => this.board?.getTileState(point).state !== "flag");
+
+        if (hint === undefined) {
+            console.info("No safe tile can be proven right now.");
+            return;
+        }
+
+        this.board.countHint();
+        this.boardPixi.showHint(hint);
+    }
+
+    /**
+     * Downloads the replay of the current game.
+     */
+    private exportReplay() {
+        const replay = this.recorder?.createReplay() ?? null;
+
+        if (replay === null) {
+            console.warn("Nothing to export. Open a tile first.");
+            return;
+        }
+
+        downloadReplay(replay);
+    }
+
+    /**
+     * Shows a board and connects it to the header.
+     * @param board - The board to show.
+     * @param isInteractive - Whether the player can click the board.
+     */
+    private attachBoard(board: MinesweeperBoard, isInteractive: boolean) {
+
+        // The keyboard cursor stays where it was on the new board.
+        const cursorPoint = this.boardPixi?.cursorPoint ?? null;
 
         if (this.boardPixi !== null) {
             this.boardPixi.clearSignals();
-            this.boardContainer.removeChild(this.boardPixi);
+            this.boardPixi.destroy({ children: true });
         }
 
-        const board = MinesweeperBoard.generate(this.boardWidthTiles, this.boardHeightTiles, this.bombCount);
+        this.board = board;
 
-        this.boardPixi = new MinesweeperBoardPixi(board);
+        this.boardPixi = new MinesweeperBoardPixi(board, this.inputOptions, this._tileSpritesheet);
 
-        this.boardPixi.position.set(BOARD_PADDING_PX);
+        if (isInteractive) {
+            this.boardPixi.cursorPoint = cursorPoint;
+            this.boardPixi.isFlagMode = this.flagModeButton.isOn;
+        }
 
-        this.boardContainer.addChild(this.boardPixi);
+        if (!isInteractive) {
+            this.boardPixi.eventMode = "none";
+        }
+
+        this.viewport.setBoard(board, this.boardPixi);
+
+        this.boardMirror.attach(board, isInteractive);
 
         board.boardStateChangedSignal.connect((newState) => this.onBoardStateChanged(newState));
 
+        board.flagCountChangedSignal.connect((flagCount) => {
+            this.leftNumberDisplay.value = board.bombCount - flagCount;
+        });
+
         this.button.changeState(board.boardState);
 
-        // Update counters
+        this.leftNumberDisplay.value = board.bombCount - board.flagCount;
+
+        this.updateProbabilityOverlay();
+    }
+
+    private stopReplay() {
+        if (this.replayPlayer === null) return;
+
+        this.replayTicker.stop();
+        this.replayPlayer.clearSignals();
+        this.replayPlayer = null;
+
+        this.replayControls.player = null;
+        this.layout();
+    }
+
+    /**
+     * Plays a replay back instead of the game. Pressing the button starts a new game.
+     * @param replay - The replay to play. It should have the same size and topology as this board.
+     */
+    public playReplay(replay: Replay) {
+
+        if (replay.width !== this.boardWidthTiles || replay.height !== this.boardHeightTiles) {
+            console.error(`Can't play a ${replay.width}x${replay.height} replay on a ${this.boardWidthTiles}x${this.boardHeightTiles} board.`);
+            return;
+        }
+
+        if (replay.topology !== this.topology.name) {
+            console.error(`Can't play a ${replay.topology} replay on a ${this.topology.name} board.`);
+            return;
+        }
+
+        this.stopReplay();
+
+        this.recorder?.stop();
+        this.recorder = null;
+
+        this.statisticsTracker?.stop();
+        this.statisticsTracker = null;
+
         this.stopwatch.reset();
 
-        // Connect signals
+        const player = new ReplayPlayer(replay);
+
+        this.replayPlayer = player;
+
+        this.attachBoard(player.board, false);
+
+        player.boardChangedSignal.connect((board) => this.attachBoard(board, false));
+
+        player.timeChangedSignal.connect((timeMS) => {
+            this.rightNumberDisplay.value = Math.floor(timeMS / 1000);
+            this.boardMirror.timeSeconds = Math.floor(timeMS / 1000);
+            // The replay pauses by itself when it ends.
+            this.replayControls.update();
+        });
+
+        player.play();
+
+        this.replayControls.player = player;
+        this.layout();
+
+        this.replayTicker.start();
     }
 
-    constructor(width: number, height: number, bombCount: number) {
+    /**
+     * Sizes the window, the header and the board background to the size of the board,
+     * or to the size of the viewport if the board is too big for it.
+     * The replay controls get a row under the board while a replay is playing.
+     */
+    private layout() {
+        this.viewport.resize(this.boardWidthTiles, this.boardHeightTiles, TILE_LAYOUTS[this.topology.tileShape]);
+
+        const boardWidthPx = this.viewport.viewportWidth;
+        const boardHeightPx = this.viewport.viewportHeight;
+
+        this.windowBackground.width = (WINDOW_PADDING_X_PX * 2) + boardWidthPx + (BOARD_PADDING_PX * 2);
+        this.windowBackground.height = (WINDOW_PADDING_Y_PX * 2) + boardHeightPx + (BOARD_PADDING_PX * 2) + HEADER_BOARD_GAP_PX + HEADER_HEIGHT_PX;
+
+        this.boardBackground.width = boardWidthPx + (BOARD_PADDING_PX * 2);
+        this.boardBackground.height = boardHeightPx + (BOARD_PADDING_PX * 2);
+
+        this.replayControls.visible = this.replayPlayer !== null;
+
+        if (this.replayControls.visible) {
+            this.windowBackground.height += HEADER_BOARD_GAP_PX + REPLAY_CONTROLS_HEIGHT_PX;
+
+            this.replayControls.position.set(
+                WINDOW_PADDING_X_PX + Math.round((this.boardBackground.width - this.replayControls.width) / 2),
+                this.boardContainer.y + this.boardBackground.height + HEADER_BOARD_GAP_PX,
+            );
+        }
+
+        const headerWidth = boardWidthPx + (BOARD_PADDING_PX * 2);
+
+        this.headerBackground.width = headerWidth;
+
+        const counterWidth = (NUMBER_DISPLAY_CELL_WIDTH_PX * 3) + (NUMBER_DISPLAY_PADDING_PX * 2);
+
+        this.rightNumberDisplay.position.x = headerWidth - counterWidth - HEADER_PADDING_PX;
+
+        this.button.position.x = headerWidth / 2;
+
+        // Centered in the gap between the left counter and the button.
+        const faceWidth = this.button.width;
+        const gapLeft = HEADER_PADDING_PX + counterWidth;
+        const gapRight = headerWidth / 2 - faceWidth / 2;
+
+        this.flagModeButton.position.set(
+            Math.round((gapLeft + gapRight - FLAG_MODE_BUTTON_SIZE_PX) / 2),
+            Math.round((HEADER_HEIGHT_PX - FLAG_MODE_BUTTON_SIZE_PX) / 2),
+        );
+
+        this.resizedSignal.emit();
+    }
+
+    /**
+     * Changes the size and the number of bombs of the board and starts a new game on it.
+     * The window is laid out again, check {@link MinesweeperPixi.windowWidth} and {@link MinesweeperPixi.windowHeight}.
+     * @param width - Width of the board in tiles.
+     * @param height - Height of the board in tiles.
+     * @param bombCount - Number of bombs on the board.
+     */
+    public resize(width: number, height: number, bombCount: number) {
+        // Dialogs are laid out for the old size.
+        this.dialog?.close();
+
+        this.boardWidthTiles = width;
+        this.boardHeightTiles = height;
+        this.bombCount = bombCount;
+
+        this.layout();
+
+        this.newGame();
+
+        if (!canSaveGame(width, height)) {
+            this.showDialog(new AutosaveOffDialogPixi(this.windowWidth, this.windowHeight));
+        }
+    }
+
+    /**
+     * Starts a new game, stopping the replay if it's playing.
+     */
+    public newGame() {
+        this.setupBoard();
+    }
+
+    private setupBoard(savedGame: SavedGame | null = null) {
+
+        this.stopReplay();
+
+        const board = savedGame === null
+            ? MinesweeperBoard.generate(
+                this.boardWidthTiles,
+                this.boardHeightTiles,
+                this.bombCount,
+                this.generateOptions,
+            )
+            : MinesweeperBoard.fromSnapshot(savedGame.board);
+
+        this.attachBoard(board, true);
+
+        board.tilesChangedSignal.connect(() => this.scheduleSave());
+        board.boardStateChangedSignal.connect(() => this.scheduleSave());
+
+        this.recorder = new ReplayRecorder(board, () => this.stopwatch.elapsedMS, savedGame?.actions);
+
+        this.statisticsTracker?.stop();
+
+        const statisticsTracker = new GameStatisticsTracker(board, () => this.stopwatch.elapsedMS, savedGame?.clicks ?? 0);
+
+        this.statisticsTracker = statisticsTracker;
+
+        this.boardPixi?.tileClickedSignal.connect(() => statisticsTracker.countClick());
+
+        const settings = this.boardSettings;
+
+        this.statisticsTracker.finishedSignal.connect((result) => recordGameStatistics(settings, result));
+
+        this.stopwatch.reset();
+
+        if (savedGame === null) {
+            clearSavedGame();
+            return;
+        }
+
+        this.stopwatch.setElapsedMS(savedGame.elapsedMS);
+
+        if (board.boardState === "active") {
+            this.stopwatch.start();
+        }
+    }
+
+    public override destroy(options?: Parameters<Container["destroy"]>[0]) {
+        window.removeEventListener("pagehide", this.onPageHide);
+        this.cancelSave();
+        window.removeEventListener("keydown", this.onKeyDown);
+        window.removeEventListener("keyup", this.onKeyUp);
+        this.boardPixi?.clearSignals();
+        this.boardMirror.destroy();
+        this.stopReplay();
+        this.statisticsTracker?.stop();
+        this.replayTicker.destroy();
+        this.stopwatch.pause();
+        this.resizedSignal.clear();
+        super.destroy(options);
+    }
+
+    /**
+     * @param width - Width of the board in tiles.
+     * @param height - Height of the board in tiles.
+     * @param bombCount - Number of bombs on the board.
+     * @param generateOptions - Options for generating new boards.
+     * @param savedGame - Game to resume instead of starting a new one.
+     * @param isRanked - Whether hints, undo and mine probabilities are disabled.
+     * @param inputOptions - How the board is played with the mouse and touches.
+     */
+    constructor(
+        width: number,
+        height: number,
+        bombCount: number,
+        generateOptions: GenerateOptions,
+        savedGame: SavedGame | null = null,
+        isRanked: boolean = false,
+        inputOptions: InputOptions = { longPressMS: DEFAULT_LONG_PRESS_MS, showFlagModeButton: false, chordingScheme: "left" },
+    ) {
         super();
 
         const spritesheet: Spritesheet = Assets.get("spritesheet");
@@ -69,19 +829,16 @@ export class MinesweeperPixi extends Container {
         this.boardWidthTiles = width;
         this.boardHeightTiles = height;
         this.bombCount = bombCount;
-
-        const boardWidthPx = this.boardWidthTiles * TILE_SIZE_PX;
-        const boardHeightPx = this.boardHeightTiles * TILE_SIZE_PX;
+        this.generateOptions = generateOptions;
+        this.isRanked = isRanked;
+        this.inputOptions = inputOptions;
 
         // # Window Background
-        const windowBackground = new NineSlicePlane(
+        this.windowBackground = new NineSlicePlane(
             spritesheet.textures["background/main.png"]
         );
 
-        windowBackground.width = (WINDOW_PADDING_X_PX * 2) + boardWidthPx + (BOARD_PADDING_PX * 2);
-        windowBackground.height = (WINDOW_PADDING_Y_PX * 2) + boardHeightPx + (BOARD_PADDING_PX * 2) + HEADER_BOARD_GAP_PX + HEADER_HEIGHT_PX;
-
-        this.addChild(windowBackground);
+        this.addChild(this.windowBackground);
 
         // # Board Container
         this.boardContainer = new Container();
@@ -91,52 +848,50 @@ export class MinesweeperPixi extends Container {
 
         this.addChild(this.boardContainer);
 
+        // # Replay Controls
+        this.addChild(this.replayControls);
+
         // ## Board Background
-        const boardBackground = new NineSlicePlane(
+        this.boardBackground = new NineSlicePlane(
             spritesheet.textures["background/secondary.png"]
         );
 
-        boardBackground.width = boardWidthPx + (BOARD_PADDING_PX * 2);
-        boardBackground.height = boardHeightPx + (BOARD_PADDING_PX * 2);
+        this.boardContainer.addChild(this.boardBackground);
 
-        this.boardContainer.addChild(boardBackground);
+        // ## Viewport
+        this.viewport = new MinesweeperViewportPixi(inputOptions.chordingScheme);
+
+        this.viewport.position.set(BOARD_PADDING_PX);
+
+        this.boardContainer.addChild(this.viewport);
 
         // # Header Container
-        const headerContainer = new Container();
+        this.headerContainer = new Container();
 
-        headerContainer.position.set(WINDOW_PADDING_X_PX);
+        this.headerContainer.position.set(WINDOW_PADDING_X_PX);
 
-        this.addChild(headerContainer);
+        this.addChild(this.headerContainer);
 
         // ## Header Background
-        const headerBackground = new NineSlicePlane(
+        this.headerBackground = new NineSlicePlane(
             spritesheet.textures["background/secondary.png"]
         );
 
-        const headerWidth = boardWidthPx + (BOARD_PADDING_PX * 2);
-
-        headerBackground.width = headerWidth;
-        headerBackground.height = HEADER_HEIGHT_PX;
+        this.headerBackground.height = HEADER_HEIGHT_PX;
 
-        headerBackground.addChild(headerBackground);
-
-        headerContainer.addChild(headerBackground);
+        this.headerContainer.addChild(this.headerBackground);
 
         // ## Counters
 
-        const leftCounter = new MinesweeperNumberDisplayPixi();
+        this.leftNumberDisplay = new MinesweeperNumberDisplayPixi();
 
-        leftCounter.position.set(HEADER_PADDING_PX);
+        this.leftNumberDisplay.position.set(HEADER_PADDING_PX);
 
-        headerContainer.addChild(leftCounter);
+        this.headerContainer.addChild(this.leftNumberDisplay);
 
         this.rightNumberDisplay = new MinesweeperNumberDisplayPixi();
 
-        headerContainer.addChild(this.rightNumberDisplay);
-
-        const counterWidth = (NUMBER_DISPLAY_CELL_WIDTH_PX * 3) + (NUMBER_DISPLAY_PADDING_PX * 2);
-
-        this.rightNumberDisplay.position.x = headerWidth - counterWidth - HEADER_PADDING_PX;
+        this.headerContainer.addChild(this.rightNumberDisplay);
 
         this.rightNumberDisplay.position.y = HEADER_PADDING_PX;
 
@@ -146,20 +901,60 @@ export class MinesweeperPixi extends Container {
 
         this.stopwatch.secondsUpdate.connect((seconds) => {
             this.rightNumberDisplay.value = seconds;
+            this.boardMirror.timeSeconds = seconds;
         });
 
         // ## Button
         
         this.button = new MinesweeperButtonPixi();
 
-        headerContainer.addChild(this.button);
+        this.headerContainer.addChild(this.button);
+
+        this.button.position.y = HEADER_HEIGHT_PX / 2;
+
+        // ## Flag Mode Button
+
+        this.flagModeButton = new MinesweeperFlagModeButtonPixi();
 
-        this.button.position.set(headerWidth / 2, HEADER_HEIGHT_PX / 2);
+        this.flagModeButton.visible = inputOptions.showFlagModeButton;
+
+        this.headerContainer.addChild(this.flagModeButton);
+
+        this.flagModeButton.toggledSignal.connect((isOn) => {
+            if (this.boardPixi !== null && this.replayPlayer === null) {
+                this.boardPixi.isFlagMode = isOn;
+            }
+        });
+
+        this.layout();
 
         // # Setup
-        
-        this.setupBoard();
 
-        this.button.pressedSignal.connect(() => this.setupBoard());
+        this.replayTicker.add(this.onReplayTick);
+
+        this.setupBoard(savedGame);
+
+        if (!canSaveGame(width, height)) {
+            this.showDialog(new AutosaveOffDialogPixi(this.windowWidth, this.windowHeight));
+        }
+
+        this.button.pressedSignal.connect(() => this.newGame());
+
+        this.boardMirror.cellFocusedSignal.connect((point) => {
+            if (this.boardPixi !== null && this.replayPlayer === null) this.boardPixi.cursorPoint = point;
+            this.viewport.scrollToTile(point);
+        });
+
+        this.boardMirror.cellClickedSignal.connect((point) => {
+            if (this.boardPixi === null) return;
+            this.boardPixi.cursorPoint = point;
+            this.boardPixi.clickCursorTile();
+        });
+
+        // The stopwatch keeps running between the autosaves, so save once more when the page is closed.
+        window.addEventListener("pagehide", this.onPageHide);
+
+        window.addEventListener("keydown", this.onKeyDown);
+        window.addEventListener("keyup", this.onKeyUp);
     }
 }
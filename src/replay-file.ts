@@ -0,0 +1,60 @@
+import { Replay, decodeReplay, encodeReplay } from "./core/replay";
+
+export function downloadReplay(replay: Replay) {
+
+    const blob = new Blob([encodeReplay(replay)], { type: "text/plain" });
+
+    const url = URL.createObjectURL(blob);
+
+    const link = document.createElement("a");
+
+    link.href = url;
+    link.download = `minesweeper-replay-${replay.width}x${replay.height}.txt`;
+
+    link.click();
+
+    // The download may start after the click returns, so the URL has to live until then.
+    setTimeout(() => URL.revokeObjectURL(url));
+}
+
+export async function readReplayFile(file: File): Promise<Replay | null> {
+    return decodeReplay(await file.text());
+}
+
+/**
+ * Asks the player for a replay file and plays it, like dropping the file on the page.
+ */
+export function chooseReplayFile() {
+
+    const input = document.createElement("input");
+
+    input.type = "file";
+    input.accept = ".txt,text/plain";
+
+    input.addEventListener("change", async () => {
+        const file = input.files?.[0];
+
+        if (file === undefined) return;
+
+        const replay = await readReplayFile(file);
+
+        if (replay === null) return;
+
+        openReplay(replay);
+    });
+
+    input.click();
+}
+
+/**
+ * Reloads the page to play a replay. The replay is passed in the `replay` URL param.
+ */
+export function openReplay(replay: Replay) {
+
+    const url = new URL(window.location.href);
+
+    url.search = "";
+    url.searchParams.set("replay", encodeReplay(replay));
+
+    window.location.assign(url);
+}
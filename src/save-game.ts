@@ -0,0 +1,84 @@
+import { BoardSnapshot } from "./core/minesweeper-board";
+import { ReplayAction } from "./core/replay";
+
+const SAVED_GAME_STORAGE_KEY = "minesweeper/saved-game";
+
+/**
+ * Increment when the format of {@link SavedGame} changes, so old saves are discarded instead of restored incorrectly.
+ */
+const SAVED_GAME_VERSION = 8;
+
+/**
+ * Most tiles of a board whose game is saved. A 1000×1000 board takes about 1.4 MB,
+ * and browsers only give a page about 5 MB of local storage.
+ */
+export const MAX_SAVED_BOARD_TILES = 1000 * 1000;
+
+export type SavedGame = {
+    readonly version: number,
+    readonly board: BoardSnapshot,
+    readonly elapsedMS: number,
+
+    /**
+     * Actions recorded for the replay of the game.
+     */
+    readonly actions: readonly ReplayAction[],
+
+    /**
+     * Clicks for the statistics. The clicks that didn't change the board aren't in the actions.
+     */
+    readonly clicks: number,
+}
+
+export function canSaveGame(width: number, height: number): boolean {
+    return width * height <= MAX_SAVED_BOARD_TILES;
+}
+
+export function saveGame(board: BoardSnapshot, elapsedMS: number, actions: readonly ReplayAction[], clicks: number) {
+
+    const savedGame: SavedGame = {
+        version: SAVED_GAME_VERSION,
+        board,
+        elapsedMS,
+        actions,
+        clicks,
+    };
+
+    try {
+        localStorage.setItem(SAVED_GAME_STORAGE_KEY, JSON.stringify(savedGame));
+    } catch (error) {
+        console.error("Failed to save the game.", error);
+    }
+}
+
+export function loadSavedGame(): SavedGame | null {
+
+    let savedGame: SavedGame;
+
+    try {
+        const json = localStorage.getItem(SAVED_GAME_STORAGE_KEY);
+
+        if (json === null) return null;
+
+        savedGame = JSON.parse(json);
+    } catch (error) {
+        console.error("Failed to load the saved game.", error);
+        return null;
+    }
+
+    if (savedGame.version !== SAVED_GAME_VERSION) {
+        console.warn(`Discarding a saved game with an unsupported version: ${savedGame.version}`);
+        clearSavedGame();
+        return null;
+    }
+
+    return savedGame;
+}
+
+export function clearSavedGame() {
+    try {
+        localStorage.removeItem(SAVED_GAME_STORAGE_KEY);
+    } catch (error) {
+        console.error("Failed to clear the saved game.", error);
+    }
+}
@@ -0,0 +1,130 @@
+import { BoardSettings, getBoardSettingsWithDifficulties, isSameBoardSettings } from "./board-settings";
+import { GameResult, get3BVPerSecond, getEfficiency } from "./core/game-statistics";
+
+const STATISTICS_STORAGE_KEY = "minesweeper/statistics";
+
+/**
+ * Increment when the format of the stored statistics changes, so old ones are discarded instead of read incorrectly.
+ */
+const STATISTICS_VERSION = 1;
+
+/**
+ * Statistics of a board. Boards are kept apart by their width, height, bombs and topology.
+ * Sums are over the won games, to compute the averages.
+ */
+export type BoardStatistics = BoardSettings & {
+    played: number,
+    won: number,
+    currentStreak: number,
+    longestStreak: number,
+    wonTimeMSSum: number,
+    won3BVPerSecondSum: number,
+    wonEfficiencySum: number,
+    lastGame: GameResult | null,
+}
+
+type StoredStatistics = {
+    readonly version: number,
+    readonly boards: BoardStatistics[],
+}
+
+function createEmptyBoardStatistics(settings: BoardSettings): BoardStatistics {
+    return {
+        width: settings.width,
+        height: settings.height,
+        bombs: settings.bombs,
+        topology: settings.topology ?? "flat",
+        played: 0,
+        won: 0,
+        currentStreak: 0,
+        longestStreak: 0,
+        wonTimeMSSum: 0,
+        won3BVPerSecondSum: 0,
+        wonEfficiencySum: 0,
+        lastGame: null,
+    };
+}
+
+function loadStatistics(): StoredStatistics {
+
+    const empty: StoredStatistics = { version: STATISTICS_VERSION, boards: [] };
+
+    let stored: StoredStatistics;
+
+    try {
+        const json = localStorage.getItem(STATISTICS_STORAGE_KEY);
+
+        if (json === null) return empty;
+
+        stored = JSON.parse(json);
+    } catch (error) {
+        console.error("Failed to load the statistics.", error);
+        return empty;
+    }
+
+    if (stored.version !== STATISTICS_VERSION) {
+        console.warn(`Discarding statistics with an unsupported version: ${stored.version}`);
+        return empty;
+    }
+
+    return stored;
+}
+
+/**
+ * @returns The statistics of a board. They're all zero if no game was played on it.
+ */
+export function getBoardStatistics(settings: BoardSettings): BoardStatistics {
+    return loadStatistics().boards.find(board => isSameBoardSettings(board, settings)) ?? createEmptyBoardStatistics(settings);
+}
+
+/**
+ * @returns The boards to show statistics for: the difficulties first, then the custom boards that were played.
+ */
+export function getStatisticsBoards(): BoardSettings[] {
+    return getBoardSettingsWithDifficulties(loadStatistics().boards);
+}
+
+/**
+ * Adds a finished game to the statistics of its board. Assisted games aren't recorded.
+ */
+export function recordGameStatistics(settings: BoardSettings, result: GameResult) {
+
+    if (result.isAssisted) return;
+
+    const stored = loadStatistics();
+
+    let board = stored.boards.find(board => isSameBoardSettings(board, settings));
+
+    if (board === undefined) {
+        board = createEmptyBoardStatistics(settings);
+        stored.boards.push(board);
+    }
+
+    board.played++;
+    board.lastGame = result;
+
+    if (result.isWon) {
+        board.won++;
+        board.currentStreak++;
+        board.longestStreak = Math.max(board.longestStreak, board.currentStreak);
+        board.wonTimeMSSum += result.timeMS;
+        board.won3BVPerSecondSum += get3BVPerSecond(result) ?? 0;
+        board.wonEfficiencySum += getEfficiency(result) ?? 0;
+    } else {
+        board.currentStreak = 0;
+    }
+
+    try {
+        localStorage.setItem(STATISTICS_STORAGE_KEY, JSON.stringify(stored));
+    } catch (error) {
+        console.error("Failed to save the statistics.", error);
+    }
+}
+
+export function clearStatistics() {
+    try {
+        localStorage.removeItem(STATISTICS_STORAGE_KEY);
+    } catch (error) {
+        console.error("Failed to clear the statistics.", error);
+    }
+}
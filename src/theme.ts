@@ -0,0 +1,41 @@
+const THEME_STORAGE_KEY = "minesweeper/theme";
+
+/**
+ * Palette of the tiles:
+ * - `"classic"`: the colors of Windows XP.
+ * - `"deuteranopia"`: numbers that stay apart for red-green colorblindness.
+ * - `"high-contrast"`: dark numbers on white open tiles.
+ * - `"monochrome"`: black and white, the numbers, flags and mines are told apart by their shape.
+ */
+export type Theme = "classic" | "deuteranopia" | "high-contrast" | "monochrome";
+
+export const THEMES: readonly Theme[] = ["classic", "deuteranopia", "high-contrast", "monochrome"];
+
+export const DEFAULT_THEME: Theme = "classic";
+
+export function saveTheme(theme: Theme) {
+    try {
+        localStorage.setItem(THEME_STORAGE_KEY, theme);
+    } catch (error) {
+        console.error("Failed to save the theme.", error);
+    }
+}
+
+export function loadTheme(): Theme {
+
+    let theme: string | null;
+
+    try {
+        theme = localStorage.getItem(THEME_STORAGE_KEY);
+    } catch (error) {
+        console.error("Failed to load the theme.", error);
+        return DEFAULT_THEME;
+    }
+
+    if (theme === null) return DEFAULT_THEME;
+
+    if ((THEMES as readonly string[]).includes(theme)) return theme as Theme;
+
+    console.warn(`Discarding an unknown theme: ${theme}`);
+    return DEFAULT_THEME;
+}
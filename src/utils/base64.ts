@@ -0,0 +1,39 @@
+/**
+ * Bytes passed to `String.fromCharCode` at once. Passing all of them could overflow the call stack.
+ */
+const CHUNK_SIZE_BYTES = 0x8000;
+
+/**
+ * Encodes bytes as a base64 string.
+ *
+ * @param bytes - The bytes to encode.
+ * @returns The base64 string.
+ */
+export function encodeBase64(bytes: Uint8Array): string {
+    let binary = "";
+
+    for (let start = 0; start < bytes.length; start += CHUNK_SIZE_BYTES) {
+        binary += String.fromCharCode(...bytes.subarray(start, start + CHUNK_SIZE_BYTES));
+    }
+
+    return btoa(binary);
+}
+
+/**
+ * Decodes a base64 string encoded with {@link encodeBase64}.
+ *
+ * @param encoded - The base64 string.
+ * @returns The decoded bytes.
+ * @throws {Error} If the string isn't valid base64.
+ */
+export function decodeBase64(encoded: string): Uint8Array {
+    const binary = atob(encoded);
+
+    const bytes = new Uint8Array(binary.length);
+
+    for (let index = 0; index < binary.length; index++) {
+        bytes[index] = binary.charCodeAt(index);
+    }
+
+    return bytes;
+}
@@ -0,0 +1,9 @@
+/**
+ * Formats a time as seconds with millisecond precision.
+ * 
+ * @param timeMS - The time in milliseconds.
+ * @returns The formatted time, e.g. `"12.345 s"`.
+ */
+export function formatTimeMS(timeMS: number): string {
+    return `${(timeMS / 1000).toFixed(3)} s`;
+}
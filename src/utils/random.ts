@@ -0,0 +1,61 @@
+/**
+ * A source of random numbers. Returns a number in the range [0, 1), like `Math.random`.
+ */
+export type RandomGenerator = () => number;
+
+/**
+ * Hashes a string into a 32-bit unsigned integer. It mixes the string like cyrb53,
+ * but folds the two halves into 32 bits instead of 53, because that's all the state of Mulberry32 holds.
+ * Changing it would change the board of every seed.
+ *
+ * @param value - The string to hash.
+ * @returns The 32-bit hash of the string.
+ */
+function hashString(value: string): number {
+    let h1 = 0xdeadbeef;
+    let h2 = 0x41c6ce57;
+
+    for (let i = 0; i < value.length; i++) {
+        const char = value.charCodeAt(i);
+        h1 = Math.imul(h1 ^ char, 2654435761);
+        h2 = Math.imul(h2 ^ char, 1597334677);
+    }
+
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+
+    return (h1 ^ h2) >>> 0;
+}
+
+/**
+ * Creates a seeded pseudorandom number generator using the Mulberry32 algorithm.
+ * The same seed always produces the same sequence of numbers.
+ *
+ * @see {@link https://gist.github.com/tommyettinger/46a874533244883189143505d203312c|Mulberry32 - GitHub Gist}
+ *
+ * @param seed - Any string. It's hashed into the 32-bit state of the generator.
+ * @returns A random number generator.
+ */
+export function createSeededRandom(seed: string): RandomGenerator {
+    let state = hashString(seed);
+
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+
+        let t = state;
+        t = Math.imul(t ^ (t >>> 15), t | 1);
+        t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+/**
+ * Creates a random number generator from an optional seed.
+ *
+ * @param seed - The seed, or `null` to use `Math.random`.
+ * @returns A seeded random number generator, or `Math.random` if there is no seed.
+ */
+export function createRandom(seed: string | null): RandomGenerator {
+    return seed === null ? Math.random : createSeededRandom(seed);
+}
@@ -0,0 +1,52 @@
+import { clamp } from "./utils/clamp";
+
+const ZOOM_STORAGE_KEY = "minesweeper/zoom";
+
+export const MIN_ZOOM = 1;
+export const MAX_ZOOM = 6;
+export const DEFAULT_ZOOM = 2;
+
+/**
+ * Integer scale of the game, so the pixel art stays crisp with `SCALE_MODES.NEAREST`.
+ * `"fit"` picks the largest scale that fits the browser window.
+ */
+export type Zoom = number | "fit";
+
+/**
+ * @returns The largest integer scale at which a window of the given size fits the browser window, at least {@link MIN_ZOOM}.
+ */
+export function getFitZoom(windowWidth: number, windowHeight: number): number {
+    const zoom = Math.floor(Math.min(window.innerWidth / windowWidth, window.innerHeight / windowHeight));
+    return clamp(zoom, MIN_ZOOM, MAX_ZOOM);
+}
+
+export function saveZoom(zoom: Zoom) {
+    try {
+        localStorage.setItem(ZOOM_STORAGE_KEY, JSON.stringify(zoom));
+    } catch (error) {
+        console.error("Failed to save the zoom.", error);
+    }
+}
+
+export function loadZoom(): Zoom {
+
+    let zoom: unknown;
+
+    try {
+        const json = localStorage.getItem(ZOOM_STORAGE_KEY);
+
+        if (json === null) return DEFAULT_ZOOM;
+
+        zoom = JSON.parse(json);
+    } catch (error) {
+        console.error("Failed to load the zoom.", error);
+        return DEFAULT_ZOOM;
+    }
+
+    if (zoom === "fit") return zoom;
+
+    if (typeof zoom === "number" && Number.isInteger(zoom) && zoom >= MIN_ZOOM && zoom <= MAX_ZOOM) return zoom;
+
+    console.warn(`Discarding an invalid zoom: ${zoom}`);
+    return DEFAULT_ZOOM;
+}